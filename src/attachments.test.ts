@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import FireGit from "./database.js";
+import { MemoryStorage } from "./storage/index.js";
+
+describe("attachments", () => {
+  let storage: MemoryStorage;
+  let db: FireGit;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    db = new FireGit(storage, { maxAttachmentSize: 1024 });
+    await db.doc("users/alice").set({ name: "Alice" });
+  });
+
+  it("should put, get, list and delete attachments", async () => {
+    const attachments = db.doc("users/alice").attachments;
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+    const metadata = await attachments.put("avatar.png", image, {
+      contentType: "image/png",
+    });
+    await attachments.put("notes.txt", "Hello");
+
+    expect(metadata).toEqual({
+      name: "avatar.png",
+      contentType: "image/png",
+      size: 4,
+      sha: expect.stringMatching(/^[0-9a-f]{40}$/),
+    });
+    expect(await attachments.get("avatar.png")).toEqual({
+      ...metadata,
+      data: image,
+    });
+    expect(
+      (await attachments.list()).map(({ name, contentType }) => [
+        name,
+        contentType,
+      ]),
+    ).toEqual([
+      ["avatar.png", "image/png"],
+      ["notes.txt", "application/octet-stream"],
+    ]);
+
+    expect(await attachments.delete("avatar.png")).toBe(true);
+    expect(await attachments.delete("avatar.png")).toBe(false);
+    expect(await attachments.get("avatar.png")).toBeNull();
+    expect(await attachments.list()).toHaveLength(1);
+  });
+
+  it("should store shared content once and keep it while referenced", async () => {
+    const attachments = db.doc("users/alice").attachments;
+    const { sha } = await attachments.put("a.txt", "Same");
+    await attachments.put("b.txt", "Same");
+    const blobs = () =>
+      storage.listDirectory("users/alice/.attachments/.blobs");
+
+    expect(await blobs()).toHaveLength(1);
+    await attachments.delete("a.txt");
+    expect((await attachments.get("b.txt"))?.data.toString()).toBe("Same");
+
+    // Replacing the content releases the old blob
+    await attachments.put("b.txt", "Other");
+    expect((await blobs())!.map((entry) => entry.name)).not.toContain(sha);
+  });
+
+  it("should stay out of documents and subcollections", async () => {
+    await db.doc("users/alice").attachments.put("avatar.png", "png");
+
+    expect(await db.doc("users/alice").listCollections()).toEqual([]);
+    expect((await db.collectionGroup("users").get()).docs).toEqual([
+      { id: "alice", name: "Alice" },
+    ]);
+
+    await db.doc("users/alice").delete({ recursive: true });
+    expect(await db.doc("users/alice").attachments.list()).toEqual([]);
+  });
+
+  it("should delete the attachments with their document", async () => {
+    // One collection without and one with persisted indexes
+    const indexed = new FireGit(storage, { indexes: { users: ["name"] } });
+    await db.doc("users/alice").attachments.put("avatar.png", "png");
+    await indexed.doc("users/bob").set({ name: "Bob" });
+    await indexed.doc("users/bob").attachments.put("avatar.png", "png");
+
+    await db.doc("users/alice").delete();
+    await indexed.doc("users/bob").delete();
+
+    expect(await storage.listDirectory("users/alice")).toBeNull();
+    expect(await storage.listDirectory("users/bob")).toBeNull();
+    expect(await db.doc("users/alice").attachments.list()).toEqual([]);
+  });
+
+  it("should delete the attachments in batches and recursive deletes", async () => {
+    await db.doc("users/alice").attachments.put("avatar.png", "png");
+    await db.doc("users/bob").set({ name: "Bob" });
+    await db.doc("users/bob").attachments.put("avatar.png", "png");
+    await db.doc("users/bob/posts/p1").set({ title: "Hello" });
+    await db.doc("users/bob/posts/p1").attachments.put("photo.jpg", "jpg");
+
+    await db.batch().delete(db.doc("users/alice")).commit();
+    await db.doc("users/bob").delete({ recursive: true });
+
+    expect(await storage.listDirectory("users/alice")).toBeNull();
+    expect(await storage.listDirectory("users/bob")).toBeNull();
+  });
+
+  it("should reject large attachments and invalid names", async () => {
+    const attachments = db.doc("users/alice").attachments;
+
+    await expect(
+      attachments.put("big.bin", Buffer.alloc(1025)),
+    ).rejects.toMatchObject({
+      code: "invalid-argument",
+      message:
+        "Failed to put attachment: Attachment 'big.bin' has 1025 bytes, more than the limit of 1024",
+    });
+    await expect(attachments.put("a/b.txt", "x")).rejects.toMatchObject({
+      code: "invalid-argument",
+    });
+    await expect(attachments.get(".blobs")).rejects.toMatchObject({
+      code: "invalid-argument",
+    });
+  });
+});
@@ -0,0 +1,330 @@
+import type { Document, FireGit } from "./database.js";
+import { blobSha, FileChange } from "./storage/index.js";
+import { getHead, retryOnConflict } from "./commit.js";
+import { DataLossError, InvalidArgumentError, wrapError } from "./errors.js";
+import { mapWithConcurrency } from "./concurrency.js";
+
+/**
+ * A file attached to a document, without its content
+ */
+export interface AttachmentMetadata {
+  name: string;
+  /** The MIME type given when the attachment was put */
+  contentType: string;
+  /** The size in bytes */
+  size: number;
+  /** The Git blob SHA of the content */
+  sha: string;
+}
+
+/**
+ * A file attached to a document, with its content
+ */
+export interface Attachment extends AttachmentMetadata {
+  data: Buffer;
+}
+
+/**
+ * Options for putting an attachment
+ */
+export interface PutAttachmentOptions {
+  /** The MIME type (default "application/octet-stream") */
+  contentType?: string;
+}
+
+/** The first line of every pointer file */
+const POINTER_VERSION =
+  "version https://github.com/AndreasCaldewei/fire-git/attachments/v1";
+
+/**
+ * Attachments - Binary files stored next to a document.
+ *
+ * Like Git LFS, each attachment is a small pointer file at <document>/.attachments/<name>
+ * holding the content's SHA, size and type. The content itself is stored once per SHA
+ * at <document>/.attachments/.blobs/<sha> and read through the Blobs API, so its size
+ * is only bounded by maxAttachmentSize.
+ */
+export class Attachments {
+  private db: FireGit;
+  private doc: Document<any>;
+
+  constructor(db: FireGit, doc: Document<any>) {
+    this.db = db;
+    this.doc = doc;
+  }
+
+  /**
+   * Create or replace an attachment in one commit
+   * @param name - The file name, without slashes
+   * @param data - The content
+   * @param options - contentType: the MIME type
+   * @returns The metadata of the attachment
+   */
+  async put(
+    name: string,
+    data: Buffer | Uint8Array | string,
+    options: PutAttachmentOptions = {},
+  ): Promise<AttachmentMetadata> {
+    try {
+      checkName(name);
+      const content = Buffer.from(data as any);
+      const maxSize = this.db._getMaxAttachmentSize();
+      if (content.length > maxSize) {
+        throw new InvalidArgumentError(
+          `Attachment '${name}' has ${content.length} bytes, more than the limit of ${maxSize}`,
+        );
+      }
+
+      const metadata: AttachmentMetadata = {
+        name,
+        contentType: options.contentType || "application/octet-stream",
+        size: content.length,
+        sha: blobSha(content),
+      };
+
+      await retryOnConflict(this.db, async () => {
+        const headSha = await getHead(this.db);
+        const previous = await this._readPointer(name, headSha);
+        const changes: FileChange[] = [
+          {
+            path: this._pointerPath(name),
+            content: serializePointer(metadata),
+          },
+          { path: this._blobPath(metadata.sha), content },
+        ];
+        if (previous && previous.sha !== metadata.sha) {
+          changes.push(...(await this._releaseBlob(previous, headSha)));
+        }
+        await this.db
+          ._getStorage()
+          .commit(
+            changes,
+            `Attach '${name}' to document '${this.doc.id}' in '${this.doc.collection}'`,
+            headSha,
+          );
+      });
+
+      return metadata;
+    } catch (error: any) {
+      throw wrapError(error, "put attachment", this.doc.path);
+    }
+  }
+
+  /**
+   * Get an attachment with its content
+   * @param name - The file name
+   * @returns The attachment, or null if it does not exist
+   */
+  async get(name: string): Promise<Attachment | null> {
+    try {
+      checkName(name);
+      const metadata = await this._readPointer(name);
+      if (!metadata) {
+        return null;
+      }
+      const data = await this.db._getStorage().readBlob(metadata.sha);
+      return { ...metadata, data };
+    } catch (error: any) {
+      throw wrapError(error, "get attachment", this.doc.path);
+    }
+  }
+
+  /**
+   * List the attachments of the document, without their content
+   * @returns The metadata of the attachments, sorted by name
+   */
+  async list(): Promise<AttachmentMetadata[]> {
+    try {
+      const storage = this.db._getStorage();
+      const entries = await storage.listDirectory(this._directory());
+      const pointers = (entries || []).filter(
+        (entry) => entry.type === "file" && !entry.name.startsWith("."),
+      );
+
+      const attachments = await mapWithConcurrency(
+        pointers,
+        this.db._getMaxConcurrency(),
+        async (entry) =>
+          parsePointer(
+            entry.name,
+            await storage.readBlob(entry.sha),
+            entry.path,
+          ),
+      );
+      return attachments.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error: any) {
+      throw wrapError(error, "list attachments", this.doc.path);
+    }
+  }
+
+  /**
+   * Delete an attachment in one commit
+   * @param name - The file name
+   * @returns True if the attachment existed
+   */
+  async delete(name: string): Promise<boolean> {
+    try {
+      checkName(name);
+      return await retryOnConflict(this.db, async () => {
+        const headSha = await getHead(this.db);
+        const metadata = await this._readPointer(name, headSha);
+        if (!metadata) {
+          return false;
+        }
+        await this.db
+          ._getStorage()
+          .commit(
+            [
+              { path: this._pointerPath(name), content: null },
+              ...(await this._releaseBlob(metadata, headSha)),
+            ],
+            `Delete attachment '${name}' from document '${this.doc.id}' in '${this.doc.collection}'`,
+            headSha,
+          );
+        return true;
+      });
+    } catch (error: any) {
+      throw wrapError(error, "delete attachment", this.doc.path);
+    }
+  }
+
+  /**
+   * Read the pointer file of an attachment
+   * @param name - The file name
+   * @param ref - The commit to read at, defaults to the branch
+   * @returns The metadata, or null if the attachment does not exist
+   * @private
+   */
+  private async _readPointer(
+    name: string,
+    ref?: string | null,
+  ): Promise<AttachmentMetadata | null> {
+    if (ref === null) {
+      return null;
+    }
+    const path = this._pointerPath(name);
+    const file = await this.db._getStorage().readFile(path, ref);
+    return file ? parsePointer(name, file.content, path) : null;
+  }
+
+  /**
+   * Compute the change that removes a content blob no other attachment points to
+   * @param metadata - The attachment that no longer points to its blob
+   * @param headSha - The commit the change is applied on top of
+   * @returns The blob deletion, or nothing if another attachment shares the content
+   * @private
+   */
+  private async _releaseBlob(
+    metadata: AttachmentMetadata,
+    headSha: string | null,
+  ): Promise<FileChange[]> {
+    const entries = headSha
+      ? await this.db._getStorage().listDirectory(this._directory(), headSha)
+      : null;
+    const others = (entries || []).filter(
+      (entry) =>
+        entry.type === "file" &&
+        !entry.name.startsWith(".") &&
+        entry.name !== metadata.name,
+    );
+    const shared = await mapWithConcurrency(
+      others,
+      this.db._getMaxConcurrency(),
+      async (entry) =>
+        (await this._readPointer(entry.name, headSha))?.sha === metadata.sha,
+    );
+
+    return shared.includes(true)
+      ? []
+      : [{ path: this._blobPath(metadata.sha), content: null }];
+  }
+
+  /**
+   * The directory of the document's attachments
+   * @private
+   */
+  private _directory(): string {
+    return this.db._getFullPath(`${this.doc.path}/.attachments`);
+  }
+
+  /**
+   * The path of an attachment's pointer file
+   * @private
+   */
+  private _pointerPath(name: string): string {
+    return `${this._directory()}/${name}`;
+  }
+
+  /**
+   * The path of a content blob
+   * @private
+   */
+  private _blobPath(sha: string): string {
+    return `${this._directory()}/.blobs/${sha}`;
+  }
+}
+
+/**
+ * Reject attachment names that are not a single file name
+ * @param name - The file name
+ * @throws InvalidArgumentError for empty names, slashes and leading dots
+ */
+function checkName(name: string): void {
+  if (!name || name.includes("/") || name.startsWith(".")) {
+    throw new InvalidArgumentError(
+      `Invalid attachment name '${name}'. Names cannot be empty, contain '/' or start with '.'`,
+    );
+  }
+}
+
+/**
+ * Serialize the pointer file of an attachment
+ * @param metadata - The attachment
+ * @returns The pointer file content, one "key value" line per field
+ */
+function serializePointer(metadata: AttachmentMetadata): Buffer {
+  return Buffer.from(
+    [
+      POINTER_VERSION,
+      `oid sha1:${metadata.sha}`,
+      `size ${metadata.size}`,
+      `content-type ${metadata.contentType}`,
+      "",
+    ].join("\n"),
+  );
+}
+
+/**
+ * Parse the pointer file of an attachment
+ * @param name - The file name
+ * @param content - The pointer file content
+ * @param path - The pointer file path, for the error
+ * @returns The metadata
+ * @throws DataLossError if the file is not a pointer
+ */
+function parsePointer(
+  name: string,
+  content: Buffer,
+  path: string,
+): AttachmentMetadata {
+  const fields = new Map(
+    content
+      .toString("utf8")
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => {
+        const space = line.indexOf(" ");
+        return [line.slice(0, space), line.slice(space + 1)] as const;
+      }),
+  );
+  const oid = /^sha1:([0-9a-f]{40})$/.exec(fields.get("oid") || "");
+  if (`version ${fields.get("version")}` !== POINTER_VERSION || !oid) {
+    throw new DataLossError(`${path} is not an attachment pointer`, { path });
+  }
+  return {
+    name,
+    contentType: fields.get("content-type") || "application/octet-stream",
+    size: Number(fields.get("size")),
+    sha: oid[1],
+  };
+}
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import FireGit from "./database.js";
+import { WriteBatch } from "./batch.js";
+import { Octokit } from "@octokit/rest";
+
+// Mock the Octokit constructor and its methods
+vi.mock("@octokit/rest", () => {
+  const mockOctokit = {
+    repos: {
+      getContent: vi.fn(),
+    },
+    git: {
+      getRef: vi.fn(),
+      getCommit: vi.fn(),
+      getTree: vi.fn(),
+      createBlob: vi.fn(),
+      createTree: vi.fn(),
+      createCommit: vi.fn(),
+      updateRef: vi.fn(),
+    },
+  };
+
+  return {
+    Octokit: vi.fn(() => mockOctokit),
+  };
+});
+
+describe("WriteBatch", () => {
+  let db: FireGit;
+  let mockOctokit: any;
+
+  beforeEach(() => {
+    const octoKit = new Octokit({});
+    db = new FireGit(octoKit, {
+      owner: "test-owner",
+      repo: "test-repo",
+      basePath: "data",
+    });
+    mockOctokit = (db as any).octokit;
+
+    vi.resetAllMocks();
+
+    mockOctokit.git.getRef.mockResolvedValue({
+      data: { object: { sha: "head-sha" } },
+    });
+    mockOctokit.git.getCommit.mockResolvedValue({
+      data: { tree: { sha: "base-tree-sha" } },
+    });
+    // No document has attachments
+    mockOctokit.git.getTree.mockResolvedValue({ data: { tree: [] } });
+    let blobCount = 0;
+    mockOctokit.git.createBlob.mockImplementation(async () => ({
+      data: { sha: `blob-${++blobCount}` },
+    }));
+    mockOctokit.git.createTree.mockResolvedValue({ data: { sha: "tree-sha" } });
+    mockOctokit.git.createCommit.mockResolvedValue({
+      data: { sha: "commit-sha" },
+    });
+    mockOctokit.git.updateRef.mockResolvedValue({});
+  });
+
+  it("should be created by db.batch()", () => {
+    expect(db.batch()).toBeInstanceOf(WriteBatch);
+  });
+
+  it("should commit all writes as a single commit", async () => {
+    const existing = { name: "Old", email: "old@example.com" };
+    mockOctokit.repos.getContent.mockImplementation(async ({ path }: any) => {
+      if (path === "data/users/2.json" || path === "data/users/3.json") {
+        return {
+          data: {
+            content: Buffer.from(JSON.stringify(existing)).toString("base64"),
+          },
+        };
+      }
+      const error = new Error("Not found");
+      (error as any).status = 404;
+      throw error;
+    });
+
+    await db
+      .batch()
+      .set(db.doc("users/1"), { name: "One" })
+      .update(db.doc("users/2"), { name: "Two" })
+      .delete(db.doc("users/3"))
+      .commit();
+
+    // Reads happen at the head commit, not the moving branch
+    expect(mockOctokit.repos.getContent).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      path: "data/users/2.json",
+      ref: "head-sha",
+    });
+
+    const blobContents = mockOctokit.git.createBlob.mock.calls.map(
+      (call: any) =>
+        JSON.parse(Buffer.from(call[0].content, "base64").toString("utf8")),
+    );
+    expect(blobContents).toEqual([
+      { name: "One" },
+      { name: "Two", email: "old@example.com" },
+    ]);
+
+    expect(mockOctokit.git.createTree).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      base_tree: "base-tree-sha",
+      tree: [
+        {
+          path: "data/users/1.json",
+          mode: "100644",
+          type: "blob",
+          sha: "blob-1",
+        },
+        {
+          path: "data/users/2.json",
+          mode: "100644",
+          type: "blob",
+          sha: "blob-2",
+        },
+        { path: "data/users/3.json", mode: "100644", type: "blob", sha: null },
+      ],
+    });
+
+    expect(mockOctokit.git.createCommit).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      message: "Batch write of 3 operations",
+      tree: "tree-sha",
+      parents: ["head-sha"],
+    });
+
+    expect(mockOctokit.git.updateRef).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      ref: "heads/main",
+      sha: "commit-sha",
+      force: false,
+    });
+  });
+
+  it("should apply several writes to the same document in order", async () => {
+    await db
+      .batch()
+      .set(db.doc("users/1"), { name: "One", age: 1 })
+      .update(db.doc("users/1"), { age: 2 })
+      .commit();
+
+    expect(mockOctokit.repos.getContent).not.toHaveBeenCalled();
+    expect(mockOctokit.git.createBlob).toHaveBeenCalledTimes(1);
+    const content = JSON.parse(
+      Buffer.from(
+        mockOctokit.git.createBlob.mock.calls[0][0].content,
+        "base64",
+      ).toString("utf8"),
+    );
+    expect(content).toEqual({ name: "One", age: 2 });
+  });
+
+  it("should skip the commit when deleting only missing documents", async () => {
+    const error = new Error("Not found");
+    (error as any).status = 404;
+    mockOctokit.repos.getContent.mockRejectedValue(error);
+
+    await db.batch().delete(db.doc("users/missing")).commit();
+
+    expect(mockOctokit.git.createTree).not.toHaveBeenCalled();
+    expect(mockOctokit.git.updateRef).not.toHaveBeenCalled();
+  });
+
+  it("should fail without partial writes when the ref update is rejected", async () => {
+    mockOctokit.git.updateRef.mockRejectedValue(
+      new Error("Update is not a fast forward"),
+    );
+
+    await expect(
+      db.batch().set(db.doc("users/1"), { name: "One" }).commit(),
+    ).rejects.toThrow("Failed to commit batch: Update is not a fast forward");
+  });
+
+  it("should not allow reuse after commit", async () => {
+    const batch = db.batch();
+    await batch.commit();
+
+    expect(() => batch.set(db.doc("users/1"), {})).toThrow(
+      "A write batch can no longer be used after commit()",
+    );
+  });
+});
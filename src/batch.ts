@@ -0,0 +1,130 @@
+import type {
+  Document,
+  DocumentInput,
+  UpdateData,
+  FireGit,
+  SetOptions,
+} from "./database.js";
+import { commitWrites, getHead, retryOnConflict, Write } from "./commit.js";
+import { ValidationError } from "./validation.js";
+import { errorCode, FireGitError, wrapError } from "./errors.js";
+
+/**
+ * WriteBatch - Queue several writes and commit them as a single Git commit
+ */
+export class WriteBatch {
+  private db: FireGit;
+  private writes: Write[] = [];
+  private committed = false;
+
+  constructor(db: FireGit) {
+    this.db = db;
+  }
+
+  /**
+   * Queue a set operation
+   * @param docRef - The document to write
+   * @param data - The document data
+   * @param options - Options like {merge: true}
+   * @returns The batch, for chaining
+   */
+  set<T>(docRef: Document<T>, data: DocumentInput<T>): this;
+  set<T>(docRef: Document<T>, data: UpdateData<T>, options: SetOptions): this;
+  set<T>(docRef: Document<T>, data: any, options: SetOptions = {}): this {
+    this._assertNotCommitted();
+    this.writes.push({
+      type: "set",
+      doc: docRef,
+      data: docRef._toJSON(data),
+      options,
+    });
+    return this;
+  }
+
+  /**
+   * Queue an update of fields, which may be field paths like "profile.address.city" -
+   * the fields bypass the converter
+   * @param docRef - The document to update
+   * @param data - The partial data to update
+   * @returns The batch, for chaining
+   */
+  update<T>(docRef: Document<T>, data: UpdateData<T>): this {
+    this._assertNotCommitted();
+    this.writes.push({ type: "update", doc: docRef, data });
+    return this;
+  }
+
+  /**
+   * Queue a delete operation
+   * @param docRef - The document to delete
+   * @returns The batch, for chaining
+   */
+  delete<T>(docRef: Document<T>): this {
+    this._assertNotCommitted();
+    this.writes.push({ type: "delete", doc: docRef });
+    return this;
+  }
+
+  /**
+   * Commit all queued writes as one Git commit. Either every write lands or none does.
+   */
+  async commit(): Promise<void> {
+    this._assertNotCommitted();
+    this.committed = true;
+
+    if (this.writes.length === 0) {
+      return;
+    }
+
+    const offline = this.db._getOfflineQueue();
+    try {
+      if (offline && (await offline.isQueueing())) {
+        await offline.enqueue(this.writes);
+        return;
+      }
+
+      // The writes don't depend on what was read, so they are replayed on a moved branch
+      await retryOnConflict(this.db, async () => {
+        const headSha = await getHead(this.db);
+        await commitWrites(
+          this.db,
+          this.writes,
+          headSha,
+          this._commitMessage(),
+        );
+      });
+    } catch (error: any) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      if (offline && errorCode(error) === "unavailable") {
+        await offline.enqueue(this.writes);
+        return;
+      }
+      throw wrapError(error, "commit batch");
+    }
+  }
+
+  /**
+   * Build the commit message for the batch
+   * @returns The commit message
+   * @private
+   */
+  private _commitMessage(): string {
+    const count = this.writes.length;
+    return `Batch write of ${count} ${count === 1 ? "operation" : "operations"}`;
+  }
+
+  /**
+   * Throw if the batch was already committed
+   * @private
+   */
+  private _assertNotCommitted(): void {
+    if (this.committed) {
+      throw new FireGitError(
+        "failed-precondition",
+        "A write batch can no longer be used after commit()",
+      );
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import FireGit from "./database.js";
+import { diffFields } from "./branch.js";
+import { MemoryStorage } from "./storage/index.js";
+
+describe("diffFields", () => {
+  it("should list changed field paths, descending into maps", () => {
+    expect(
+      diffFields(
+        { name: "Alice", tags: ["a"], profile: { city: "Oslo", zip: "0150" } },
+        { name: "Alice", tags: ["a", "b"], profile: { city: "Bergen" } },
+      ),
+    ).toEqual([
+      { field: "profile.city", before: "Oslo", after: "Bergen" },
+      { field: "profile.zip", before: "0150", after: undefined },
+      { field: "tags", before: ["a"], after: ["a", "b"] },
+    ]);
+    expect(diffFields(null, { name: "Bob" })).toEqual([
+      { field: "name", before: undefined, after: "Bob" },
+    ]);
+  });
+});
+
+describe("branches", () => {
+  let db: FireGit;
+
+  beforeEach(async () => {
+    db = new FireGit(new MemoryStorage(), { indexes: { users: ["name"] } });
+    await db.doc("users/alice").set({ name: "Alice", age: 30 });
+    await db.doc("users/bob").set({ name: "Bob" });
+  });
+
+  it("should fork the database to a branch", async () => {
+    const staging = await db.fork("staging");
+    await staging.doc("users/alice").update({ age: 31 });
+
+    expect(await staging.doc("users/alice").get()).toEqual({
+      id: "alice",
+      name: "Alice",
+      age: 31,
+    });
+    expect(await db.doc("users/alice").get()).toEqual({
+      id: "alice",
+      name: "Alice",
+      age: 30,
+    });
+    await expect(db.fork("staging")).rejects.toMatchObject({
+      code: "already-exists",
+    });
+  });
+
+  it("should not carry the offline queue over to a fork", async () => {
+    const offline = new FireGit(new MemoryStorage(), { offline: {} });
+    await offline.doc("users/alice").set({ name: "Alice" });
+    offline.disableNetwork();
+    await offline.doc("users/alice").update({ name: "Alicia" });
+
+    const staging = await offline.fork("staging");
+    expect(await staging.doc("users/alice").get()).toEqual({
+      id: "alice",
+      name: "Alice",
+    });
+    await expect(staging.sync()).rejects.toMatchObject({
+      code: "failed-precondition",
+    });
+  });
+
+  it("should diff a fork against its base", async () => {
+    const staging = await db.fork("staging");
+    await staging
+      .batch()
+      .update(staging.doc("users/alice"), { age: 31 })
+      .delete(staging.doc("users/bob"))
+      .set(staging.doc("users/carol"), { name: "Carol" })
+      .commit();
+
+    expect(await staging.diff("main")).toEqual([
+      {
+        type: "modified",
+        path: "users/alice",
+        fields: [{ field: "age", before: 30, after: 31 }],
+      },
+      {
+        type: "removed",
+        path: "users/bob",
+        fields: [{ field: "name", before: "Bob", after: undefined }],
+      },
+      {
+        type: "added",
+        path: "users/carol",
+        fields: [{ field: "name", before: undefined, after: "Carol" }],
+      },
+    ]);
+  });
+
+  it("should fast-forward the base branch on merge", async () => {
+    const staging = await db.fork("staging");
+    await staging.doc("users/carol").set({ name: "Carol" });
+
+    const { sha } = await staging.mergeInto("main");
+
+    expect(sha).toBe(await staging._getStorage().getHead());
+    expect(await db.doc("users/carol").get()).toEqual({
+      id: "carol",
+      name: "Carol",
+    });
+    expect(await db.diff("staging")).toEqual([]);
+  });
+
+  it("should not merge when the base branch moved on", async () => {
+    const staging = await db.fork("staging");
+    await staging.doc("users/carol").set({ name: "Carol" });
+    await db.doc("users/dave").set({ name: "Dave" });
+
+    await expect(staging.mergeInto("main")).rejects.toMatchObject({
+      code: "failed-precondition",
+    });
+    await expect(
+      staging.mergeInto("main", { viaPullRequest: true }),
+    ).rejects.toMatchObject({ code: "unimplemented" });
+  });
+});
@@ -0,0 +1,151 @@
+import type { FireGit } from "./database.js";
+import type { StorageEntry } from "./storage/index.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { parseDocument } from "./commit.js";
+import { DocumentCodec } from "./codec.js";
+
+/**
+ * A field whose value differs between two versions of a document
+ */
+export interface FieldChange {
+  /** The field path, like "profile.address.city" */
+  field: string;
+  /** The value in the base version, undefined if the field is missing there */
+  before?: any;
+  /** The value in the compared version, undefined if the field was removed */
+  after?: any;
+}
+
+/**
+ * A document that differs between two branches
+ */
+export interface DocumentDiff {
+  type: "added" | "modified" | "removed";
+  /** The document path, relative to basePath */
+  path: string;
+  /** The changed fields - all fields for added and removed documents */
+  fields: FieldChange[];
+}
+
+/**
+ * Compare the documents of the database's branch with another branch
+ * @param db - The database
+ * @param base - The branch or commit to compare against
+ * @returns The documents that differ, sorted by path
+ */
+export async function diffDocuments(
+  db: FireGit,
+  base: string,
+): Promise<DocumentDiff[]> {
+  const storage = db._getStorage();
+  const head = await storage.getHead();
+  const [before, after] = await Promise.all([
+    listDocuments(db, base),
+    head ? listDocuments(db, head) : new Map<string, DocumentFile>(),
+  ]);
+
+  // Unchanged documents keep their blob SHA, so only changed ones are read
+  const paths = [...new Set([...before.keys(), ...after.keys()])]
+    .filter((path) => before.get(path)?.sha !== after.get(path)?.sha)
+    .sort();
+
+  return mapWithConcurrency(paths, db._getMaxConcurrency(), async (path) => {
+    const [beforeData, afterData] = await Promise.all([
+      readDocument(db, before.get(path)),
+      readDocument(db, after.get(path)),
+    ]);
+    const type =
+      beforeData === null
+        ? "added"
+        : afterData === null
+          ? "removed"
+          : "modified";
+    return { type, path, fields: diffFields(beforeData, afterData) };
+  });
+}
+
+/**
+ * List the fields whose values differ, descending into nested maps
+ * @param before - The base data, null if the document does not exist
+ * @param after - The compared data, null if the document does not exist
+ * @param prefix - The field path of the compared maps
+ * @returns The changed fields, sorted by field path
+ */
+export function diffFields(
+  before: any,
+  after: any,
+  prefix = "",
+): FieldChange[] {
+  const keys = [
+    ...new Set([...Object.keys(before || {}), ...Object.keys(after || {})]),
+  ].sort();
+
+  return keys.flatMap((key) => {
+    const field = prefix ? `${prefix}.${key}` : key;
+    const beforeValue = before?.[key];
+    const afterValue = after?.[key];
+    if (isMap(beforeValue) && isMap(afterValue)) {
+      return diffFields(beforeValue, afterValue, field);
+    }
+    if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) {
+      return [];
+    }
+    return [{ field, before: beforeValue, after: afterValue }];
+  });
+}
+
+/**
+ * A listed document file with the codec of its collection
+ */
+interface DocumentFile extends StorageEntry {
+  codec: DocumentCodec;
+}
+
+/**
+ * List the document files below basePath at a ref
+ * @param db - The database
+ * @param ref - The branch or commit
+ * @returns The file entries, keyed by document path
+ */
+async function listDocuments(
+  db: FireGit,
+  ref: string,
+): Promise<Map<string, DocumentFile>> {
+  const basePath = db._getFullPath("");
+  const entries = await db._getStorage().listTree(basePath, ref);
+
+  const prefix = basePath ? `${basePath}/` : "";
+  const documents = new Map<string, DocumentFile>();
+  for (const entry of entries || []) {
+    const path = db._getDocumentPath(entry.path.slice(prefix.length));
+    if (path !== null) {
+      const collection = path.slice(0, path.lastIndexOf("/"));
+      documents.set(path, { ...entry, codec: db._getCodec(collection) });
+    }
+  }
+  return documents;
+}
+
+/**
+ * Read the data of a listed document file
+ * @param db - The database
+ * @param entry - The file entry, undefined if the document does not exist
+ * @returns The document data, null if the document does not exist
+ */
+async function readDocument(
+  db: FireGit,
+  entry: DocumentFile | undefined,
+): Promise<any | null> {
+  if (!entry) {
+    return null;
+  }
+  const content = await db._getStorage().readBlob(entry.sha);
+  return parseDocument(content, entry.path, entry.codec);
+}
+
+/**
+ * Check whether a JSON value is a map rather than an array or a primitive
+ */
+function isMap(value: any): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
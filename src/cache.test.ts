@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { LRUCache } from "./cache.js";
+
+describe("LRUCache", () => {
+  it("should evict the least recently used entries", () => {
+    const cache = new LRUCache<number>({ maxEntries: 2 });
+    cache.set("a", 1);
+    cache.set("b", 2);
+
+    // Reading a makes b the least recently used entry
+    expect(cache.get("a")).toBe(1);
+    cache.set("c", 3);
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("c")).toBe(3);
+    expect(cache.size).toBe(2);
+
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+});
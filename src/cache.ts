@@ -0,0 +1,67 @@
+/**
+ * Options for caching file contents
+ */
+export interface CacheOptions {
+  /** Maximum number of cached files and blobs (default 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * LRUCache - A map that evicts its least recently used entries beyond a maximum size
+ */
+export class LRUCache<V> {
+  private entries = new Map<string, V>();
+  private maxEntries: number;
+
+  constructor(options: CacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  /**
+   * Get an entry and mark it as recently used
+   * @param key - The key
+   * @returns The value, or undefined if it is not cached
+   */
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Maps iterate in insertion order, so reinserting moves the entry to the end
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  /**
+   * Add or replace an entry, evicting the least recently used ones if the cache is full
+   * @param key - The key
+   * @param value - The value
+   */
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Remove an entry
+   * @param key - The key
+   */
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /** The number of entries */
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import FireGit from "./database.js";
+import { DocumentCodec, markdownCodec, yamlCodec } from "./codec.js";
+import { MemoryStorage } from "./storage/index.js";
+
+describe("codecs", () => {
+  it("should read and write YAML", () => {
+    const content = yamlCodec.serialize({ title: "Hello", tags: ["a", "b"] });
+
+    expect(content.toString()).toBe("title: Hello\ntags:\n  - a\n  - b\n");
+    expect(yamlCodec.parse(content)).toEqual({
+      title: "Hello",
+      tags: ["a", "b"],
+    });
+  });
+
+  it("should expose the text after the front matter as a field", () => {
+    const codec = markdownCodec({ bodyField: "content" });
+    const content = Buffer.from("---\ntitle: Hello\n---\n# Hello\n\nText\n");
+
+    expect(codec.parse(content)).toEqual({
+      title: "Hello",
+      content: "# Hello\n\nText\n",
+    });
+    expect(codec.serialize(codec.parse(content)).toString()).toBe(
+      content.toString(),
+    );
+    expect(codec.parse(Buffer.from("# Just text"))).toEqual({
+      content: "# Just text",
+    });
+    expect(codec.serialize({ content: "Text" }).toString()).toBe(
+      "---\n---\nText",
+    );
+  });
+});
+
+describe("document formats", () => {
+  it("should store documents with the codec of their collection", async () => {
+    const storage = new MemoryStorage({
+      files: {
+        "posts/hello.md": "---\ntitle: Hello\n---\nFirst post\n",
+        "posts/notes.txt": "Not a document",
+        "authors/alice.yaml": "name: Alice\n",
+      },
+    });
+    const db = new FireGit(storage, {
+      format: "yaml",
+      formats: { posts: "markdown" },
+    });
+
+    await db.doc("posts/world").set({ title: "World", body: "Second post\n" });
+    await db.doc("authors/bob").set({ name: "Bob" });
+
+    expect((await storage.readFile("posts/world.md"))?.content.toString()).toBe(
+      "---\ntitle: World\n---\nSecond post\n",
+    );
+    expect(
+      (await storage.readFile("authors/bob.yaml"))?.content.toString(),
+    ).toBe("name: Bob\n");
+    expect((await db.collection("posts").get()).docs).toEqual([
+      { id: "hello", title: "Hello", body: "First post\n" },
+      { id: "world", title: "World", body: "Second post\n" },
+    ]);
+    expect(
+      await db.collection("authors").where("name", "==", "Alice").get(),
+    ).toEqual({
+      docs: [{ id: "alice", name: "Alice" }],
+      refs: [db.doc("authors/alice")],
+    });
+  });
+
+  it("should use registered codecs", async () => {
+    const lines: DocumentCodec = {
+      format: "lines",
+      extension: ".txt",
+      parse: (content) => ({ lines: content.toString().split("\n") }),
+      serialize: (data) => Buffer.from(data.lines.join("\n")),
+    };
+    const storage = new MemoryStorage();
+    const db = new FireGit(storage, { formats: { notes: "lines" } });
+    db.registerCodec("lines", lines);
+
+    await db.doc("notes/todo").update({ lines: ["milk", "eggs"] });
+
+    expect((await storage.readFile("notes/todo.txt"))?.content.toString()).toBe(
+      "milk\neggs",
+    );
+    expect(await db.doc("notes/todo").get()).toEqual({
+      id: "todo",
+      lines: ["milk", "eggs"],
+    });
+  });
+
+  it("should report malformed files and unknown formats", async () => {
+    const db = new FireGit(
+      new MemoryStorage({ files: { "posts/bad.yaml": "title: [unclosed" } }),
+      { format: "yaml", formats: { drafts: "toml" } },
+    );
+
+    await expect(db.doc("posts/bad").get()).rejects.toMatchObject({
+      code: "data-loss",
+      message: expect.stringMatching(/posts\/bad.yaml is not valid YAML/),
+    });
+    await expect(db.doc("drafts/one").get()).rejects.toMatchObject({
+      code: "invalid-argument",
+      message: "Failed to get document: Unknown document format 'toml'",
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+
+/**
+ * DocumentCodec - Converts between document data and the content of its file
+ */
+export interface DocumentCodec {
+  /** The name of the format, for error messages, e.g. "JSON" */
+  format: string;
+  /** The extension of document files, with the dot, e.g. ".json" */
+  extension: string;
+  /**
+   * Parse the content of a document file
+   * @param content - The file content
+   * @returns The document data
+   * @throws If the content is malformed
+   */
+  parse(content: Buffer): any;
+  /**
+   * Serialize document data to file content
+   * @param data - The document data
+   * @returns The file content
+   */
+  serialize(data: any): Buffer;
+}
+
+/**
+ * Options for the Markdown codec
+ */
+export interface MarkdownCodecOptions {
+  /** The field the text after the front matter is exposed as (default "body") */
+  bodyField?: string;
+}
+
+/**
+ * Documents stored as pretty-printed JSON in <id>.json files - the default
+ */
+export const jsonCodec: DocumentCodec = {
+  format: "JSON",
+  extension: ".json",
+  parse: (content) => JSON.parse(content.toString("utf8")),
+  serialize: (data) => Buffer.from(JSON.stringify(data, null, 2)),
+};
+
+/**
+ * Documents stored as YAML in <id>.yaml files
+ */
+export const yamlCodec: DocumentCodec = {
+  format: "YAML",
+  extension: ".yaml",
+  parse: (content) => parseYaml(content.toString("utf8")) ?? {},
+  serialize: (data) => Buffer.from(stringifyYaml(data)),
+};
+
+/**
+ * Create a codec for Markdown files with YAML front matter, stored as <id>.md.
+ * The front matter holds the fields; the text after it is exposed as one more field.
+ * @param options - bodyField: the field of the text
+ * @returns The codec
+ */
+export function markdownCodec(
+  options: MarkdownCodecOptions = {},
+): DocumentCodec {
+  const bodyField = options.bodyField || "body";
+
+  return {
+    format: "Markdown",
+    extension: ".md",
+    parse: (content) => {
+      const text = content.toString("utf8");
+      // "---" on the first line opens the front matter, the next "---" line closes it
+      const match = /^---\r?\n([\s\S]*?)^---[ \t]*(?:\r?\n|$)/m.exec(text);
+      if (!match || match.index !== 0) {
+        return { [bodyField]: text };
+      }
+      const fields = parseYaml(match[1]) ?? {};
+      if (typeof fields !== "object" || Array.isArray(fields)) {
+        throw new Error("The front matter is not a map");
+      }
+      return { ...fields, [bodyField]: text.slice(match[0].length) };
+    },
+    serialize: (data) => {
+      const { [bodyField]: body, ...fields } = data;
+      const frontMatter =
+        Object.keys(fields).length > 0 ? stringifyYaml(fields) : "";
+      return Buffer.from(`---\n${frontMatter}---\n${body ?? ""}`);
+    },
+  };
+}
+
+/**
+ * Get the document ID of a file in a collection listing
+ * @param name - The file name
+ * @param codec - The codec of the collection
+ * @returns The ID, or null if the file has another extension
+ */
+export function documentId(name: string, codec: DocumentCodec): string | null {
+  return name.endsWith(codec.extension)
+    ? name.slice(0, -codec.extension.length)
+    : null;
+}
+
+/**
+ * The codecs every database knows, by name
+ */
+export const builtinCodecs: Record<string, DocumentCodec> = {
+  json: jsonCodec,
+  yaml: yamlCodec,
+  markdown: markdownCodec(),
+};
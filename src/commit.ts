@@ -0,0 +1,330 @@
+import type { Document, FireGit, SetOptions } from "./database.js";
+import type { FileChange } from "./storage/index.js";
+import { applySet, applyUpdate } from "./field-value.js";
+import { buildIndexChanges } from "./indexes.js";
+import { backoff, withRetry } from "./retry.js";
+import { DataLossError, FireGitError } from "./errors.js";
+import { DocumentCodec } from "./codec.js";
+
+/**
+ * A single queued write operation
+ */
+export type Write =
+  | { type: "set"; doc: Document<any>; data: any; options: SetOptions }
+  | { type: "update"; doc: Document<any>; data: any }
+  | { type: "delete"; doc: Document<any> };
+
+/**
+ * A file read at a specific commit
+ */
+export interface FileVersion {
+  sha: string;
+  data: any;
+}
+
+/**
+ * Resolve the commit SHA the branch currently points to
+ * @param db - The database
+ * @returns The head commit SHA, or null if the branch has no commits yet
+ */
+export async function getHead(db: FireGit): Promise<string | null> {
+  return db._getStorage().getHead();
+}
+
+/**
+ * Resolve a point-in-time read option to a commit
+ * @param db - The database
+ * @param at - A commit SHA, or a date to find the commit the branch pointed to then
+ * @returns The commit SHA, or null if the branch had no commits at that time
+ */
+export async function resolveAt(
+  db: FireGit,
+  at: string | Date,
+): Promise<string | null> {
+  if (at instanceof Date) {
+    return db._getStorage().getCommitAt(at);
+  }
+  return at;
+}
+
+/**
+ * Read and parse a document or index file at a given commit
+ * @param db - The database
+ * @param fullPath - The full file path
+ * @param ref - The commit SHA to read at
+ * @param codec - The codec of the file
+ * @returns The blob SHA and parsed data, or null if the file does not exist
+ */
+export async function readFile(
+  db: FireGit,
+  fullPath: string,
+  ref: string | null,
+  codec: DocumentCodec,
+): Promise<FileVersion | null> {
+  if (!ref) {
+    return null;
+  }
+  const file = await db._getStorage().readFile(fullPath, ref);
+  if (!file) {
+    return null;
+  }
+  return { sha: file.sha, data: parseDocument(file.content, fullPath, codec) };
+}
+
+/**
+ * Parse the content of a document file
+ * @param content - The file content
+ * @param fullPath - The full file path, for the error
+ * @param codec - The codec of the file
+ * @returns The document data
+ * @throws DataLossError if the codec cannot parse the content
+ */
+export function parseDocument(
+  content: Buffer,
+  fullPath: string,
+  codec: DocumentCodec,
+): any {
+  try {
+    return codec.parse(content);
+  } catch (error: any) {
+    // Decryption errors already tell what went wrong
+    if (error instanceof FireGitError) {
+      throw error;
+    }
+    throw new DataLossError(
+      `${fullPath} is not valid ${codec.format}: ${error.message}`,
+      { path: fullPath, cause: error },
+    );
+  }
+}
+
+/**
+ * List all files below a directory, descending into subdirectories
+ * @param db - The database
+ * @param fullPath - The full directory path
+ * @param ref - The commit SHA to list at
+ * @returns The full paths of the files, empty if the directory does not exist
+ */
+export async function listFiles(
+  db: FireGit,
+  fullPath: string,
+  ref: string | null,
+): Promise<string[]> {
+  if (!ref) {
+    return [];
+  }
+  const entries = await db._getStorage().listTree(fullPath, ref);
+  return (entries || []).map((entry) => entry.path);
+}
+
+/**
+ * Check whether an error means the branch moved while we were writing
+ * @param error - The error thrown by the storage adapter
+ * @returns True for rejected ref updates and SHA conflicts
+ */
+export function isConflict(error: any): boolean {
+  return error?.status === 409;
+}
+
+/**
+ * Run a read-modify-write again when the branch or file moved before it could be written
+ * @param db - The database
+ * @param fn - Reads the current state and writes, called again from scratch for each attempt
+ * @returns The result of fn
+ */
+export async function retryOnConflict<T>(
+  db: FireGit,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const options = db._getRetryOptions();
+  return withRetry(
+    fn,
+    (error, attempt) => (isConflict(error) ? backoff(attempt, options) : null),
+    options,
+  );
+}
+
+/**
+ * Apply writes on top of a commit and move the branch to the result in one commit.
+ * Fails with a conflict if the branch no longer points to headSha.
+ * @param db - The database
+ * @param writes - The writes, applied in order
+ * @param headSha - The commit the writes are applied on top of
+ * @param message - The commit message
+ * @param extraChanges - Raw file changes to commit along, like the files of deleted subcollections
+ * @returns The new commit SHA, or null if nothing changed
+ */
+export async function commitWrites(
+  db: FireGit,
+  writes: Write[],
+  headSha: string | null,
+  message: string,
+  extraChanges: FileChange[] = [],
+): Promise<string | null> {
+  const changes = await buildChanges(db, writes, headSha);
+  // Files of deleted documents, like their attachments, may be listed in both
+  const paths = new Set(changes.map((change) => change.path));
+  changes.push(...extraChanges.filter((change) => !paths.has(change.path)));
+
+  // Nothing to change (e.g. only deletes of missing documents)
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return db._getStorage().commit(changes, message, headSha);
+}
+
+/**
+ * Compute a document's data after a write
+ * @param current - The document's data before the write, null if it does not exist
+ * @param write - The write
+ * @param timestamp - The commit time for serverTimestamp()
+ * @returns The new data, null if the document is deleted
+ */
+export function applyWrite(
+  current: any | null,
+  write: Write,
+  timestamp: string,
+): any | null {
+  switch (write.type) {
+    case "delete":
+      return null;
+    case "update":
+      return applyUpdate(current, write.data, timestamp);
+    case "set":
+      return applySet(current, write.data, write.options, timestamp);
+  }
+}
+
+/**
+ * Check the ifMatch precondition of a set against the stored document file
+ * @param write - The write
+ * @param sha - The blob SHA of the stored file, null if the document does not exist
+ * @throws FireGitError with code failed-precondition if the file changed since it was read
+ */
+export function checkIfMatch(write: Write, sha: string | null): void {
+  if (
+    write.type === "set" &&
+    write.options.ifMatch !== undefined &&
+    write.options.ifMatch !== sha
+  ) {
+    throw new FireGitError(
+      "failed-precondition",
+      `Document '${write.doc.path}' changed since it was read`,
+      { path: write.doc.path, status: 412 },
+    );
+  }
+}
+
+/**
+ * Check whether a write keeps part of the stored data
+ * @param write - The write
+ * @returns True for updates and sets with merge or mergeFields
+ */
+function isMerge(write: Write): boolean {
+  return (
+    write.type === "update" ||
+    (write.type === "set" &&
+      (!!write.options.merge || !!write.options.mergeFields))
+  );
+}
+
+/**
+ * A document's data before and after the writes - undefined when not read or not written
+ */
+interface DocumentState {
+  doc: Document<any>;
+  before?: any | null;
+  /** The blob SHA of the file at the head, set along with before */
+  sha?: string | null;
+  after?: any | null;
+}
+
+/**
+ * Apply the writes in order and collect the resulting file changes.
+ * Deleted documents lose their attachments in the same commit.
+ * @param db - The database
+ * @param writes - The writes, applied in order
+ * @param headSha - The commit the writes are applied on top of
+ * @returns The file changes to commit
+ */
+export async function buildChanges(
+  db: FireGit,
+  writes: Write[],
+  headSha: string | null,
+): Promise<FileChange[]> {
+  const states = new Map<string, DocumentState>();
+  // serverTimestamp() resolves to the same time for every write in the commit
+  const timestamp = new Date().toISOString();
+
+  for (const write of writes) {
+    const fullPath = db._getFilePath(write.doc.path);
+    if (!states.has(fullPath)) {
+      states.set(fullPath, { doc: write.doc });
+    }
+    const state = states.get(fullPath)!;
+
+    // Deletes need to know if the file exists, merges and indexes need its current data,
+    // preconditions its SHA
+    const needsBefore =
+      state.before === undefined &&
+      (write.type === "delete" ||
+        db._getIndexedFields(write.doc.collection).length > 0 ||
+        (write.type === "set" && write.options.ifMatch !== undefined) ||
+        (isMerge(write) && state.after === undefined));
+
+    if (needsBefore) {
+      const file = await readFile(
+        db,
+        fullPath,
+        headSha,
+        db._getCodec(write.doc.collection),
+      );
+      state.before = file ? file.data : null;
+      state.sha = file ? file.sha : null;
+    }
+    checkIfMatch(write, state.sha ?? null);
+
+    const current = state.after !== undefined ? state.after : state.before;
+    state.after = applyWrite(current, write, timestamp);
+  }
+
+  // Nothing is committed if any written document is invalid
+  for (const state of states.values()) {
+    if (state.after !== null) {
+      db._validate(state.doc.path, state.after);
+    }
+  }
+
+  const changes: FileChange[] = [];
+
+  for (const [path, state] of states) {
+    if (state.after === null) {
+      // Only files that exist at the head can be removed from the tree
+      if (state.before) {
+        changes.push({ path, content: null });
+      }
+      const attachments = await listFiles(
+        db,
+        db._getFullPath(`${state.doc.path}/.attachments`),
+        headSha,
+      );
+      changes.push(
+        ...attachments.map((file) => ({ path: file, content: null })),
+      );
+      continue;
+    }
+    changes.push({
+      path,
+      content: db._getCodec(state.doc.collection).serialize(state.after),
+    });
+  }
+
+  // Index files change in the same commit as the documents
+  const indexed = [...states.values()].filter(
+    ({ doc }) => db._getIndexedFields(doc.collection).length > 0,
+  );
+  changes.push(...(await buildIndexChanges(db, indexed, headSha)));
+
+  return changes;
+}
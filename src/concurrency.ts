@@ -0,0 +1,27 @@
+/**
+ * Map over items with at most `limit` calls of fn in flight at a time
+ * @param items - The items
+ * @param limit - The maximum number of concurrent calls
+ * @param fn - The async mapping function
+ * @returns The results, in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker),
+  );
+  return results;
+}
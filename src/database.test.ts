@@ -1,6 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import FireGit, { Collection, Document } from "./database.js";
+import FireGit, {
+  Collection,
+  Document,
+  DocumentConverter,
+} from "./database.js";
 import { Octokit } from "@octokit/rest";
+import { increment } from "./field-value.js";
+import { conflictError, MemoryStorage } from "./storage/index.js";
 
 // Mock the Octokit constructor and its methods
 vi.mock("@octokit/rest", () => {
@@ -10,6 +16,11 @@ vi.mock("@octokit/rest", () => {
       createOrUpdateFileContents: vi.fn(),
       deleteFile: vi.fn(),
     },
+    git: {
+      getRef: vi.fn(),
+      getTree: vi.fn(),
+      getBlob: vi.fn(),
+    },
   };
 
   return {
@@ -165,68 +176,70 @@ describe("Collection", () => {
 
   describe("get", () => {
     it("should return all documents in the collection", async () => {
-      // Mock the GitHub API response
-      mockOctokit.repos.getContent.mockResolvedValue({
-        data: [
-          { name: "doc1.json", type: "file" },
-          { name: "doc2.json", type: "file" },
-          { name: "not-a-json.txt", type: "file" },
-          { name: "subdir", type: "dir" },
-        ],
-      });
-
-      // Mock document references and their get results
-      const mockDoc1Result = {
-        id: "doc1",
-        name: "Document 1",
-      };
+      // Mock the root tree and the collection's tree
+      mockOctokit.git.getTree.mockImplementation(({ tree_sha }: any) => ({
+        data: {
+          tree:
+            tree_sha === "main"
+              ? [{ path: "users", type: "tree", sha: "users-tree" }]
+              : [
+                  { path: "doc1.json", type: "blob", sha: "blob1" },
+                  { path: "doc2.json", type: "blob", sha: "blob2" },
+                  { path: "not-a-json.txt", type: "blob", sha: "blob3" },
+                  { path: "subdir", type: "tree", sha: "subdir-tree" },
+                ],
+        },
+      }));
 
-      const mockDoc2Result = {
-        id: "doc2",
-        name: "Document 2",
+      // Mock the blobs of the documents
+      const blobs: Record<string, any> = {
+        blob1: { name: "Document 1" },
+        blob2: { name: "Document 2" },
       };
-
-      // Create mock document references
-      const mockDoc1 = {
-        get: vi.fn().mockResolvedValue(mockDoc1Result),
-      } as unknown as Document;
-
-      const mockDoc2 = {
-        get: vi.fn().mockResolvedValue(mockDoc2Result),
-      } as unknown as Document;
-
-      // Spy on doc method to return appropriate mock documents
-      const docSpy = vi.spyOn(collection, "doc");
-      docSpy.mockImplementation((id) => {
-        if (id === "doc1") return mockDoc1;
-        if (id === "doc2") return mockDoc2;
-        return {} as Document;
-      });
+      mockOctokit.git.getBlob.mockImplementation(({ file_sha }: any) => ({
+        data: {
+          content: Buffer.from(JSON.stringify(blobs[file_sha])).toString(
+            "base64",
+          ),
+          encoding: "base64",
+        },
+      }));
 
       const result = await collection.get();
 
-      expect(mockOctokit.repos.getContent).toHaveBeenCalledWith({
+      expect(mockOctokit.git.getTree).toHaveBeenCalledWith({
         owner: "test-owner",
         repo: "test-repo",
-        path: "users",
-        ref: "main",
+        tree_sha: "users-tree",
       });
-
-      expect(docSpy).toHaveBeenCalledWith("doc1");
-      expect(docSpy).toHaveBeenCalledWith("doc2");
-      expect(mockDoc1.get).toHaveBeenCalled();
-      expect(mockDoc2.get).toHaveBeenCalled();
+      expect(mockOctokit.git.getBlob).toHaveBeenCalledTimes(2);
+      expect(mockOctokit.repos.getContent).not.toHaveBeenCalled();
 
       expect(result).toEqual({
-        docs: [mockDoc1Result, mockDoc2Result],
+        docs: [
+          { id: "doc1", name: "Document 1" },
+          { id: "doc2", name: "Document 2" },
+        ],
       });
     });
 
     it("should return empty result when collection does not exist", async () => {
+      mockOctokit.git.getTree.mockResolvedValue({
+        data: { tree: [{ path: "posts", type: "tree", sha: "posts-tree" }] },
+      });
+
+      const result = await collection.get();
+
+      expect(result).toEqual({
+        docs: [],
+      });
+    });
+
+    it("should return empty result when the branch does not exist", async () => {
       // Mock a 404 error from GitHub API
       const error = new Error("Not found");
       (error as any).status = 404;
-      mockOctokit.repos.getContent.mockRejectedValue(error);
+      mockOctokit.git.getTree.mockRejectedValue(error);
 
       const result = await collection.get();
 
@@ -235,16 +248,58 @@ describe("Collection", () => {
       });
     });
 
-    it("should throw error when API returns a non-array result", async () => {
-      // Mock a file response instead of a directory
-      mockOctokit.repos.getContent.mockResolvedValue({
-        data: { type: "file", name: "users.json" },
+    it("should throw error when the collection path is a file", async () => {
+      // Mock a file entry instead of a directory
+      mockOctokit.git.getTree.mockResolvedValue({
+        data: { tree: [{ path: "users", type: "blob", sha: "blob" }] },
       });
 
       await expect(collection.get()).rejects.toThrow(
         "Expected a collection but found a file",
       );
     });
+
+    it("should fetch at most maxConcurrency blobs at a time", async () => {
+      db = new FireGit(new Octokit({}), {
+        owner: "test-owner",
+        repo: "test-repo",
+        maxConcurrency: 3,
+      });
+      collection = db.collection("users");
+
+      // More entries than the Contents API would return
+      const entries = Array.from({ length: 1200 }, (_, i) => ({
+        path: `doc${i}.json`,
+        type: "blob",
+        sha: `blob${i}`,
+      }));
+      mockOctokit.git.getTree.mockImplementation(({ tree_sha }: any) => ({
+        data: {
+          tree:
+            tree_sha === "main"
+              ? [{ path: "users", type: "tree", sha: "users-tree" }]
+              : entries,
+        },
+      }));
+
+      let active = 0;
+      let maxActive = 0;
+      mockOctokit.git.getBlob.mockImplementation(async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        active--;
+        return {
+          data: { content: Buffer.from("{}").toString("base64") },
+        };
+      });
+
+      const result = await collection.get();
+
+      expect(result.docs).toHaveLength(1200);
+      expect(result.docs[1199]).toEqual({ id: "doc1199" });
+      expect(maxActive).toBe(3);
+    });
   });
 });
 
@@ -446,6 +501,12 @@ describe("Document", () => {
       // Mock successful deletion
       mockOctokit.repos.deleteFile.mockResolvedValue({});
 
+      // Mock a head without attachments
+      mockOctokit.git.getRef.mockResolvedValue({
+        data: { object: { sha: "head-sha" } },
+      });
+      mockOctokit.git.getTree.mockResolvedValue({ data: { tree: [] } });
+
       const result = await doc.delete();
 
       expect(mockOctokit.repos.getContent).toHaveBeenCalledWith({
@@ -472,6 +533,10 @@ describe("Document", () => {
       const notFoundError = new Error("Not found");
       (notFoundError as any).status = 404;
       mockOctokit.repos.getContent.mockRejectedValue(notFoundError);
+      mockOctokit.git.getRef.mockResolvedValue({
+        data: { object: { sha: "head-sha" } },
+      });
+      mockOctokit.git.getTree.mockResolvedValue({ data: { tree: [] } });
 
       const result = await doc.delete();
 
@@ -481,3 +546,423 @@ describe("Document", () => {
     });
   });
 });
+
+describe("history", () => {
+  let db: FireGit;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    db = new FireGit(new MemoryStorage());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should list the versions of a document, newest first", async () => {
+    const doc = db.doc("users/alice");
+    await doc.set({ name: "Alice" });
+    await db.doc("users/bob").set({ name: "Bob" });
+    await doc.update({ age: 30 });
+    await doc.delete();
+
+    const history = await doc.history();
+
+    expect(history.map((version) => version.message)).toEqual([
+      "Delete document 'alice' from 'users'",
+      "Update document 'alice' in 'users'",
+      "Create document 'alice' in 'users'",
+    ]);
+    expect(history.map((version) => version.data)).toEqual([
+      null,
+      { id: "alice", name: "Alice", age: 30 },
+      { id: "alice", name: "Alice" },
+    ]);
+    expect(await doc.history({ limit: 1 })).toHaveLength(1);
+  });
+
+  it("should read documents and collections at a past commit or date", async () => {
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+    await db.doc("users/alice").set({ name: "Alice" });
+    const [{ sha }] = await db.doc("users/alice").history();
+
+    vi.setSystemTime(new Date("2024-02-01T00:00:00Z"));
+    await db.doc("users/alice").update({ name: "Alicia" });
+    await db.doc("users/bob").set({ name: "Bob" });
+
+    expect(await db.doc("users/alice").get({ at: sha })).toEqual({
+      id: "alice",
+      name: "Alice",
+    });
+    expect(
+      await db.collection("users").get({ at: new Date("2024-01-15") }),
+    ).toEqual({ docs: [{ id: "alice", name: "Alice" }] });
+    expect(
+      await db.doc("users/alice").get({ at: new Date("2023-12-01") }),
+    ).toEqual({ id: "alice" });
+    expect(
+      await db.collection("users").get({ at: new Date("2023-12-01") }),
+    ).toEqual({ docs: [] });
+    expect((await db.collection("users").get()).docs).toHaveLength(2);
+  });
+});
+
+describe("getSnapshot", () => {
+  let db: FireGit;
+
+  beforeEach(() => {
+    db = new FireGit(new MemoryStorage());
+  });
+
+  it("should return the data with the metadata of the file", async () => {
+    await db.doc("users/alice").set({ name: "Alice" });
+    await db.doc("users/alice").update({ age: 30 });
+    await db.doc("users/bob").set({ name: "Bob" });
+
+    const snapshot = await db.doc("users/alice").getSnapshot();
+
+    expect(snapshot.exists).toBe(true);
+    expect(snapshot.id).toBe("alice");
+    expect(snapshot.path).toBe("users/alice");
+    expect(snapshot.data()).toEqual({ id: "alice", name: "Alice", age: 30 });
+    expect(snapshot.get("age")).toBe(30);
+    expect(snapshot.sha).toMatch(/^[0-9a-f]{40}$/);
+    expect(snapshot.size).toBe(
+      JSON.stringify({ name: "Alice", age: 30 }, null, 2).length,
+    );
+    expect(snapshot.lastCommit?.message).toBe(
+      "Update document 'alice' in 'users'",
+    );
+    expect(snapshot.lastCommit?.date).toBeInstanceOf(Date);
+  });
+
+  it("should tell missing documents apart from empty ones", async () => {
+    await db.doc("users/empty").set({});
+
+    const missing = await db.doc("users/alice").getSnapshot();
+    const empty = await db.doc("users/empty").getSnapshot();
+
+    expect(missing.exists).toBe(false);
+    expect(missing.data()).toBeUndefined();
+    expect(missing).toMatchObject({ sha: null, size: 0, lastCommit: null });
+    expect(empty.exists).toBe(true);
+    expect(empty.data()).toEqual({ id: "empty" });
+  });
+
+  it("should read at a past commit and convert the data", async () => {
+    await db.doc("users/alice").set({ name: "Alice" });
+    const [first] = await db.doc("users/alice").history();
+    await db.doc("users/alice").set({ name: "Alicia" });
+
+    const snapshot = await db
+      .doc("users/alice")
+      .withConverter({
+        toJSON: (name: string) => ({ name }),
+        fromJSON: (data) => data.name as string,
+      })
+      .getSnapshot({ at: first.sha });
+
+    expect(snapshot.data()).toBe("Alice");
+    expect(snapshot.lastCommit?.sha).toBe(first.sha);
+  });
+});
+
+describe("ifMatch", () => {
+  it("should only set documents that did not change since they were read", async () => {
+    const db = new FireGit(new MemoryStorage());
+    await db.doc("users/alice").set({ name: "Alice" });
+    const snapshot = await db.doc("users/alice").getSnapshot();
+
+    await db
+      .doc("users/alice")
+      .set({ name: "Alicia" }, { ifMatch: snapshot.sha! });
+
+    await expect(
+      db.doc("users/alice").set({ name: "Ali" }, { ifMatch: snapshot.sha! }),
+    ).rejects.toMatchObject({
+      code: "failed-precondition",
+      status: 412,
+      path: "users/alice",
+    });
+    expect(await db.doc("users/alice").get()).toEqual({
+      id: "alice",
+      name: "Alicia",
+    });
+  });
+
+  it("should check the precondition in batches and indexed collections", async () => {
+    const db = new FireGit(new MemoryStorage(), {
+      indexes: { users: ["name"] },
+    });
+    await db.doc("users/alice").set({ name: "Alice" });
+    const { sha } = await db.doc("users/alice").getSnapshot();
+    await db.doc("users/alice").update({ name: "Alicia" });
+
+    await expect(
+      db.doc("users/alice").set({ name: "Ali" }, { ifMatch: sha! }),
+    ).rejects.toThrow("changed since it was read");
+    await expect(
+      db
+        .batch()
+        .set(db.doc("users/bob"), { name: "Bob" })
+        .set(db.doc("users/alice"), { name: "Ali" }, { ifMatch: sha! })
+        .commit(),
+    ).rejects.toMatchObject({ code: "failed-precondition" });
+    expect((await db.collection("users").get()).docs).toEqual([
+      { id: "alice", name: "Alicia" },
+    ]);
+  });
+});
+
+describe("restore", () => {
+  let db: FireGit;
+  let firstSha: string;
+
+  beforeEach(async () => {
+    db = new FireGit(new MemoryStorage());
+    await db.doc("users/alice").set({ name: "Alice" });
+    await db.doc("users/bob").set({ name: "Bob" });
+    [{ sha: firstSha }] = await db.doc("users/bob").history();
+
+    await db.doc("users/alice").update({ name: "Alicia" });
+    await db.doc("users/bob").delete();
+    await db.doc("users/carol").set({ name: "Carol" });
+  });
+
+  it("should restore a document, bringing back deleted documents", async () => {
+    await db.doc("users/alice").restore(firstSha);
+    await db.doc("users/bob").restore(firstSha);
+
+    expect(await db.doc("users/alice").get()).toEqual({
+      id: "alice",
+      name: "Alice",
+    });
+    expect(await db.doc("users/bob").get()).toEqual({ id: "bob", name: "Bob" });
+    expect((await db.doc("users/bob").history())[0].message).toBe(
+      `Restore document 'bob' in 'users' to ${firstSha.slice(0, 7)}`,
+    );
+  });
+
+  it("should restore a collection in one commit", async () => {
+    const storage = db._getStorage();
+    const headBefore = await storage.getHead();
+
+    await db.collection("users").restore(firstSha);
+
+    const [latest] = await db.doc("users/carol").history();
+    expect(latest.message).toBe(
+      `Restore collection 'users' to ${firstSha.slice(0, 7)}`,
+    );
+    expect((await storage.history("users/alice.json"))[0].sha).toBe(latest.sha);
+    expect((await storage.history("users/bob.json"))[0].sha).toBe(latest.sha);
+    expect(latest.sha).not.toBe(headBefore);
+    expect(await db.collection("users").get()).toEqual({
+      docs: [
+        { id: "alice", name: "Alice" },
+        { id: "bob", name: "Bob" },
+      ],
+    });
+  });
+
+  it("should not commit when the document is unchanged", async () => {
+    const head = await db._getStorage().getHead();
+
+    await db.doc("users/carol").restore(head!);
+
+    expect(await db._getStorage().getHead()).toBe(head);
+  });
+});
+
+describe("withConverter", () => {
+  class User {
+    constructor(
+      readonly id: string,
+      readonly name: string,
+      readonly createdAt: Date,
+    ) {}
+  }
+
+  const userConverter: DocumentConverter<User> = {
+    toJSON: (user) => ({
+      name: user.name,
+      createdAt: user.createdAt.toISOString(),
+    }),
+    fromJSON: (data) => new User(data.id, data.name, new Date(data.createdAt)),
+  };
+
+  let storage: MemoryStorage;
+  let db: FireGit;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    db = new FireGit(storage);
+  });
+
+  it("should convert documents when writing and reading", async () => {
+    const users = db.collection("users").withConverter(userConverter);
+    const createdAt = new Date("2024-01-01T00:00:00Z");
+
+    await users.doc("alice").set(new User("alice", "Alice", createdAt));
+
+    const stored = await storage.readFile("users/alice.json");
+    expect(JSON.parse(stored!.content.toString("utf8"))).toEqual({
+      name: "Alice",
+      createdAt: "2024-01-01T00:00:00.000Z",
+    });
+
+    const user = await users.doc("alice").get();
+    expect(user).toBeInstanceOf(User);
+    expect(user.createdAt).toEqual(createdAt);
+
+    const { docs } = await users.where("name", "==", "Alice").get();
+    expect(docs[0]).toBeInstanceOf(User);
+    expect((await users.get()).docs[0].name).toBe("Alice");
+  });
+
+  it("should convert documents in batches and transactions", async () => {
+    const alice = db.doc("users/alice").withConverter(userConverter);
+    await db
+      .batch()
+      .set(alice, new User("alice", "Alice", new Date(0)))
+      .commit();
+
+    await db.runTransaction(async (transaction) => {
+      const user = await transaction.get(alice);
+      expect(user).toBeInstanceOf(User);
+      transaction.update(alice, { name: "Alicia" });
+    });
+
+    expect((await alice.get()).name).toBe("Alicia");
+    expect((await alice.get()).createdAt).toEqual(new Date(0));
+  });
+});
+
+describe("subcollections", () => {
+  let storage: MemoryStorage;
+  let db: FireGit;
+
+  beforeEach(() => {
+    storage = new MemoryStorage({
+      files: {
+        "users/alice.json": JSON.stringify({ name: "Alice" }),
+        "users/alice/posts/1.json": JSON.stringify({ title: "Hello" }),
+        "users/alice/posts/1/comments/a.json": JSON.stringify({ text: "Hi" }),
+        "users/alice/likes/2.json": JSON.stringify({}),
+        "users/bob.json": JSON.stringify({ name: "Bob" }),
+        "teams/a.json": JSON.stringify({ name: "A" }),
+      },
+    });
+    db = new FireGit(storage, { indexes: { users: ["name"] } });
+  });
+
+  it("should list root collections and the subcollections of a document", async () => {
+    const root = await db.listCollections();
+    expect(root.map((collection) => collection.path)).toEqual([
+      "teams",
+      "users",
+    ]);
+
+    const nested = await db.doc("users/alice").listCollections();
+    expect(nested.map((collection) => collection.path)).toEqual([
+      "users/alice/likes",
+      "users/alice/posts",
+    ]);
+    expect(await db.doc("users/bob").listCollections()).toEqual([]);
+  });
+
+  it("should delete a document with all its subcollections in one commit", async () => {
+    await db.collection("users").rebuildIndexes();
+    const commitSpy = vi.spyOn(storage, "commit");
+
+    await db.doc("users/alice").delete({ recursive: true });
+
+    expect(commitSpy).toHaveBeenCalledTimes(1);
+    expect(commitSpy.mock.calls[0][1]).toBe(
+      "Delete document 'alice' from 'users' with its subcollections",
+    );
+    expect(await storage.listDirectory("users/alice")).toBeNull();
+    expect(await db.doc("users/alice").get()).toEqual({ id: "alice" });
+    // The document is removed from the collection's indexes too
+    expect(
+      await db.collection("users").where("name", "==", "Alice").get(),
+    ).toEqual({ docs: [], refs: [] });
+    expect(await db.doc("users/bob").get()).toEqual({ id: "bob", name: "Bob" });
+  });
+
+  it("should delete a whole collection in one commit", async () => {
+    await db.collection("users").rebuildIndexes();
+    const commitSpy = vi.spyOn(storage, "commit");
+
+    await db.collection("users").delete();
+    await db.collection("missing").delete();
+
+    expect(commitSpy).toHaveBeenCalledTimes(1);
+    expect(commitSpy.mock.calls[0][1]).toBe("Delete collection 'users'");
+    expect(await storage.listDirectory("users")).toBeNull();
+    expect(
+      (await db.listCollections()).map((collection) => collection.path),
+    ).toEqual(["teams"]);
+  });
+});
+
+describe("conflict retries", () => {
+  it("should run single-document writes and batches again on a moved branch", async () => {
+    const storage = new MemoryStorage();
+    const db = new FireGit(storage, { retry: { minDelay: 0 } });
+    await db.doc("users/alice").set({ visits: 1 });
+
+    const moved = conflictError("Branch moved");
+    vi.spyOn(storage, "writeFile").mockRejectedValueOnce(moved);
+    vi.spyOn(storage, "commit").mockRejectedValueOnce(moved);
+
+    await db.doc("users/alice").update({ visits: increment(1) });
+    await db
+      .batch()
+      .update(db.doc("users/alice"), { visits: increment(1) })
+      .commit();
+
+    expect(await db.doc("users/alice").get()).toEqual({
+      id: "alice",
+      visits: 3,
+    });
+  });
+
+  it("should run restores, index rebuilds and collection deletes again on a moved branch", async () => {
+    const storage = new MemoryStorage();
+    const db = new FireGit(storage, {
+      indexes: { users: ["name"] },
+      retry: { minDelay: 0 },
+    });
+    await db.doc("users/alice").set({ name: "Alice" });
+    const first = (await storage.getHead())!;
+    await db.doc("users/alice").set({ name: "Alicia" });
+    await db.doc("users/bob").set({ name: "Bob" });
+
+    const commit = vi.spyOn(storage, "commit");
+    for (const operation of [
+      () => db.doc("users/alice").restore(first),
+      () => db.collection("users").restore(first),
+      () => db.collection("users").rebuildIndexes(),
+      () => db.collection("users").delete(),
+    ]) {
+      commit.mockRejectedValueOnce(conflictError("Branch moved"));
+      await operation();
+    }
+
+    expect(commit).toHaveBeenCalledTimes(8);
+    expect((await db.collection("users").get()).docs).toEqual([]);
+  });
+
+  it("should give up after the configured retries", async () => {
+    const storage = new MemoryStorage();
+    const db = new FireGit(storage, { retry: { retries: 1, minDelay: 0 } });
+    const writeSpy = vi
+      .spyOn(storage, "writeFile")
+      .mockRejectedValue(conflictError("Branch moved"));
+
+    await expect(db.doc("users/alice").set({ name: "Alice" })).rejects.toThrow(
+      "Failed to set document: Branch moved",
+    );
+    expect(writeSpy).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,4 +1,83 @@
+import { Readable } from "node:stream";
 import { Octokit } from "@octokit/rest";
+import { WriteBatch } from "./batch.js";
+import { Transaction, TransactionOptions } from "./transaction.js";
+import { Filter, OrderByDirection, Query, WhereFilterOp } from "./query.js";
+import {
+  applyWrite,
+  checkIfMatch,
+  commitWrites,
+  getHead,
+  listFiles,
+  parseDocument,
+  readFile,
+  resolveAt,
+  retryOnConflict,
+  Write,
+} from "./commit.js";
+import { RetryOptions } from "./retry.js";
+import { CacheOptions } from "./cache.js";
+import {
+  ConflictError,
+  DataLossError,
+  errorCode,
+  FireGitError,
+  InvalidArgumentError,
+  wrapError,
+} from "./errors.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { diffDocuments, DocumentDiff } from "./branch.js";
+import { Attachments } from "./attachments.js";
+import { builtinCodecs, DocumentCodec, documentId } from "./codec.js";
+import { Encryption, EncryptionOptions } from "./encryption.js";
+import {
+  OfflineOptions,
+  OfflineQueue,
+  QueuedWrite,
+  SyncOptions,
+  SyncResult,
+} from "./offline.js";
+import {
+  exportDocuments,
+  ExportOptions,
+  ExportResult,
+  importDocuments,
+  ImportOptions,
+  ImportResult,
+  parseNdjson,
+  readDirectory,
+  toNdjson,
+  writeDirectory,
+} from "./transfer.js";
+import { FieldValue } from "./field-value.js";
+import {
+  matchPattern,
+  runValidator,
+  ValidationError,
+  Validator,
+} from "./validation.js";
+import {
+  DocumentSnapshot,
+  QuerySnapshot,
+  SnapshotOptions,
+  Unsubscribe,
+  watchCollection,
+  watchDocument,
+} from "./snapshot.js";
+import {
+  buildIndexes,
+  indexPath,
+  lookupIndexes,
+  serializeIndex,
+} from "./indexes.js";
+import {
+  CommitInfo,
+  GitHubStorage,
+  isStorageAdapter,
+  PullRequestInfo,
+  RateLimitInfo,
+  StorageAdapter,
+} from "./storage/index.js";
 
 /**
  * Document data returned from a get operation - now flattened
@@ -11,43 +90,233 @@ export interface DocumentData {
 /**
  * Collection results returned from a get operation
  */
-export interface CollectionData {
-  docs: DocumentData[];
+export interface CollectionData<T = DocumentData> {
+  docs: T[];
+  /** The documents' references, in the order of docs - set by queries */
+  refs?: Document<T>[];
+}
+
+/**
+ * Converts between an application type and the JSON stored for a document
+ */
+export interface DocumentConverter<T> {
+  /** Turn a value into the object that is stored */
+  toJSON(value: T): Record<string, any>;
+  /** Turn the stored data, with the document's id, into a value */
+  fromJSON(data: DocumentData): T;
+}
+
+/**
+ * Data where every field may also be a FieldValue sentinel
+ */
+export type WithFieldValue<T> = { [K in keyof T]: T[K] | FieldValue };
+
+/**
+ * Data accepted by set() and add() - the id comes from the document path
+ */
+export type DocumentInput<T> = Omit<WithFieldValue<T>, "id"> & { id?: string };
+
+/**
+ * Data accepted by update() and set() with merge - update() also takes
+ * field paths like "profile.address.city" as keys
+ */
+export type UpdateData<T> = Partial<WithFieldValue<T>> & {
+  [fieldPath: string]: any;
+};
+
+/**
+ * Options for reading documents and collections
+ */
+export interface GetOptions {
+  /** Read the state at a past commit SHA, or at the commit current at a date */
+  at?: string | Date;
+}
+
+/**
+ * Options for listing the history of a document
+ */
+export interface HistoryOptions {
+  /** Maximum number of versions to return, newest first */
+  limit?: number;
+}
+
+/**
+ * A version of a document - data is null when the commit deleted it
+ */
+export interface DocumentVersion<T = DocumentData> extends CommitInfo {
+  data: T | null;
+}
+
+/**
+ * Options for the FireGit constructor when using a storage adapter
+ */
+export interface FireGitOptions {
+  basePath?: string;
+  /** Fields to keep persisted indexes for, keyed by collection path */
+  indexes?: Record<string, string[]>;
+  /** Maximum number of documents fetched in parallel (default 10) */
+  maxConcurrency?: number;
+  /** Validators for the data of documents, keyed by path pattern like users/{uid} */
+  validators?: Record<string, Validator>;
+  /** Retries of writes that hit a moved branch, and of failed GitHub requests */
+  retry?: RetryOptions;
+  /** The codec documents are stored with: "json" (default), "yaml", "markdown" or a registered one */
+  format?: string;
+  /** Codecs for single collections, keyed by collection path */
+  formats?: Record<string, string>;
+  /** Custom codecs by name, for format and formats */
+  codecs?: Record<string, DocumentCodec>;
+  /** Largest attachment in bytes (default 50 MB - GitHub rejects files over 100 MB) */
+  maxAttachmentSize?: number;
+  /** Encrypt documents or fields with AES-256-GCM before they are committed */
+  encryption?: EncryptionOptions;
+  /** Queue writes while the repository is unreachable, for sync() */
+  offline?: OfflineOptions;
 }
 
 /**
  * Options for the GitHubDB constructor
  */
-export interface GitHubDBOptions {
+export interface GitHubDBOptions extends FireGitOptions {
   owner: string;
   repo: string;
   branch?: string;
-  basePath?: string;
+  /** Called with the remaining API budget after every GitHub response */
+  onRateLimit?: (rateLimit: RateLimitInfo) => void;
+  /** Cache file contents in memory and revalidate them with ETags */
+  cache?: boolean | CacheOptions;
 }
 
 /**
  * Options for the set operation
  */
 export interface SetOptions {
+  /** Merge into the existing data, descending into nested maps */
   merge?: boolean;
+  /** Only write these field paths, like "profile.address.city" */
+  mergeFields?: string[];
+  /** Fail unless the document file still has this blob SHA, as read by getSnapshot() */
+  ifMatch?: string;
+}
+
+/**
+ * Options for merging a forked branch
+ */
+export interface MergeOptions {
+  /** Open a pull request instead of fast-forwarding the base branch - GitHub only */
+  viaPullRequest?: boolean;
+  /** The pull request title, defaults to "Merge '<branch>' into '<base>'" */
+  title?: string;
+  /** The pull request description */
+  body?: string;
+}
+
+/**
+ * The outcome of a merge - sha after a fast-forward, pullRequest when merging via pull request
+ */
+export interface MergeResult {
+  /** The commit the base branch points to now */
+  sha?: string;
+  /** The opened pull request */
+  pullRequest?: PullRequestInfo;
+}
+
+/**
+ * Options for deleting a document
+ */
+export interface DeleteOptions {
+  /** Also delete the documents of all subcollections, at any depth */
+  recursive?: boolean;
 }
 
 /**
  * GitHubDB - Simple document database using GitHub as storage with a Firestore-like API
  */
 export class FireGit {
-  private octokit: Octokit;
-  private owner: string;
-  private repo: string;
+  // Only set when backed by GitHub
+  private octokit?: Octokit;
+  private owner?: string;
+  private repo?: string;
   private branch: string;
   private basePath: string;
+  private storage: StorageAdapter;
+  private indexes: Record<string, string[]>;
+  private maxConcurrency: number;
+  private validators: Array<{ pattern: string; validator: Validator }> = [];
+  private retry: RetryOptions;
+  private format: string;
+  private formats: Record<string, string>;
+  private codecs: Record<string, DocumentCodec> = { ...builtinCodecs };
+  private maxAttachmentSize: number;
+  private encryption?: Encryption;
+  private offline?: OfflineQueue;
 
-  constructor(octoKit: Octokit, options: GitHubDBOptions) {
-    this.octokit = octoKit;
-    this.owner = options.owner;
-    this.repo = options.repo;
-    this.branch = options.branch || "main";
+  constructor(octoKit: Octokit, options: GitHubDBOptions);
+  constructor(storage: StorageAdapter, options?: FireGitOptions);
+  constructor(
+    backend: Octokit | StorageAdapter,
+    options: GitHubDBOptions | FireGitOptions = {},
+  ) {
+    if (isStorageAdapter(backend)) {
+      this.storage = backend;
+    } else {
+      const { owner, repo, branch, onRateLimit, cache } =
+        options as GitHubDBOptions;
+      this.octokit = backend;
+      this.owner = owner;
+      this.repo = repo;
+      this.storage = new GitHubStorage(backend, {
+        owner,
+        repo,
+        branch,
+        retry: options.retry,
+        onRateLimit,
+        cache: cache === true ? {} : cache || undefined,
+      });
+    }
+    this.branch = this.storage.branch;
     this.basePath = options.basePath || "";
+    this.indexes = options.indexes || {};
+    this.maxConcurrency = options.maxConcurrency || 10;
+    this.retry = options.retry || {};
+    this.format = options.format || "json";
+    this.formats = options.formats || {};
+    this.maxAttachmentSize = options.maxAttachmentSize ?? 50 * 1024 * 1024;
+    if (options.encryption) {
+      this.encryption = new Encryption(options.encryption);
+    }
+    if (options.offline) {
+      this.offline = new OfflineQueue(this, options.offline);
+    }
+
+    for (const [name, codec] of Object.entries(options.codecs || {})) {
+      this.registerCodec(name, codec);
+    }
+    for (const [pattern, validator] of Object.entries(
+      options.validators || {},
+    )) {
+      this.registerValidator(pattern, validator);
+    }
+  }
+
+  /**
+   * Register a validator for the documents matching a path pattern.
+   * Writes with data the validator rejects fail with a ValidationError before anything is committed.
+   * @param pattern - A document path pattern, e.g. users/{uid} or users/{uid}/posts/{pid}
+   * @param validator - A JSON Schema, or a function returning false or error messages for invalid data
+   */
+  registerValidator(pattern: string, validator: Validator): void {
+    this.validators.push({ pattern, validator });
+  }
+
+  /**
+   * Register a codec under a name, for the format and formats options.
+   * Registering a built-in name like "markdown" replaces the built-in codec.
+   * @param name - The name of the format
+   * @param codec - Parses and serializes document files with its extension
+   */
+  registerCodec(name: string, codec: DocumentCodec): void {
+    this.codecs[name] = codec;
   }
 
   /**
@@ -55,8 +324,22 @@ export class FireGit {
    * @param collectionPath - The collection path
    * @returns A Collection object
    */
-  collection(collectionPath: string): Collection {
-    return new Collection(this, collectionPath);
+  collection<T = DocumentData>(collectionPath: string): Collection<T> {
+    return new Collection<T>(this, collectionPath);
+  }
+
+  /**
+   * Query the documents of all collections with the same ID, at any depth below basePath
+   * @param collectionId - The last segment of the collection paths, e.g. "posts"
+   * @returns A Query whose documents also have their document path
+   */
+  collectionGroup<T = DocumentData>(collectionId: string): Query<T> {
+    if (collectionId.includes("/")) {
+      throw new InvalidArgumentError(
+        `Invalid collection ID '${collectionId}'. Collection group IDs cannot contain '/'`,
+      );
+    }
+    return new Query<T>(new CollectionGroup<T>(this, collectionId));
   }
 
   /**
@@ -64,11 +347,12 @@ export class FireGit {
    * @param documentPath - The full document path (collection/docId)
    * @returns A Document object
    */
-  doc(documentPath: string): Document {
+  doc<T = DocumentData>(documentPath: string): Document<T> {
     const parts = documentPath.split("/");
     if (parts.length % 2 !== 0) {
-      throw new Error(
+      throw new InvalidArgumentError(
         "Invalid document path. Should be collection/doc/collection/doc/...",
+        { path: documentPath },
       );
     }
 
@@ -76,310 +360,1496 @@ export class FireGit {
     const collectionPath = parts.slice(0, parts.length - 1).join("/");
     const docId = parts[parts.length - 1];
 
-    return this.collection(collectionPath).doc(docId);
+    return this.collection<T>(collectionPath).doc(docId);
   }
 
   /**
-   * Get the full path for a document or collection
-   * @param path - The path relative to basePath
-   * @returns The full path
+   * List the root collections
+   * @returns The collections, sorted by path
    */
-  _getFullPath(path: string): string {
-    return this.basePath ? `${this.basePath}/${path}` : path;
+  async listCollections(): Promise<Collection[]> {
+    try {
+      return await listCollections(this, this._getFullPath(""), "");
+    } catch (error: any) {
+      throw wrapError(error, "list collections");
+    }
   }
-}
 
-/**
- * Collection class for Firestore-like interface
- */
-export class Collection {
-  private db: FireGit;
-  path: string;
+  /**
+   * Stop using the storage - reads use the documents read before and writes are queued.
+   * Needs the offline option.
+   */
+  disableNetwork(): void {
+    this._requireOffline("disable network").setNetworkEnabled(false);
+  }
 
-  constructor(db: FireGit, path: string) {
-    this.db = db;
-    this.path = path;
+  /**
+   * Use the storage again after disableNetwork(). Queued writes are committed by sync().
+   */
+  enableNetwork(): void {
+    this._requireOffline("enable network").setNetworkEnabled(true);
   }
 
   /**
-   * Get a document reference
-   * @param docId - The document ID
-   * @returns A Document reference
+   * Commit the writes queued while offline in one commit.
+   * Documents that changed remotely since they were read are reported as conflicts and
+   * passed to the conflict resolver; without one, their writes stay queued. Writes to
+   * documents that fail validation or ifMatch are removed from the queue and reported.
+   * @param options - onConflict: resolves conflicts instead of the offline option's
+   * @returns The commit, the number of synced writes, the conflicts and the failed writes
    */
-  doc(docId: string): Document {
-    return new Document(this.db, `${this.path}/${docId}`);
+  async sync(options: SyncOptions = {}): Promise<SyncResult> {
+    return this._requireOffline("sync offline writes").sync(options);
   }
 
   /**
-   * Add a new document with auto-generated ID
-   * @param data - The document data
-   * @returns Reference to the created document
+   * Get the writes queued while offline
+   * @returns The writes in the order they were made
    */
-  async add(data: any): Promise<Document> {
-    const id = this._generateId();
-    const docRef = this.doc(id);
-    await docRef.set(data);
-    return docRef;
+  async pendingWrites(): Promise<QueuedWrite[]> {
+    return this._requireOffline("get pending writes").pendingWrites();
   }
 
   /**
-   * Get all documents in a collection
-   * @returns Collection result with flattened documents
+   * Remove writes queued while offline without committing them
+   * @param path - Only remove the writes to this document
+   * @returns The removed writes
    */
-  async get(): Promise<CollectionData> {
-    try {
-      const fullPath = (this.db as any)._getFullPath(this.path);
+  async discardPendingWrites(path?: string): Promise<QueuedWrite[]> {
+    return this._requireOffline("discard pending writes").discardPendingWrites(
+      path,
+    );
+  }
+
+  /**
+   * Export the documents of collections, with their subcollections, as read at the current head.
+   * NDJSON is streamed as it is read; json-dir writes <directory>/<path>.json files.
+   * @param options - The collections, the format and the json-dir directory
+   * @returns A stream of NDJSON lines, or the count of written json-dir files
+   */
+  export(options?: ExportOptions & { format?: "ndjson" }): Readable;
+  export(
+    options: ExportOptions & { format: "json-dir"; directory: string },
+  ): Promise<ExportResult>;
+  export(options: ExportOptions = {}): Readable | Promise<ExportResult> {
+    const records = exportDocuments(this, options.collections);
+    if (options.format !== "json-dir") {
+      return toNdjson(records);
+    }
+    const directory = options.directory;
+    return (async () => {
       try {
-        const { data } = await (this.db as any).octokit.repos.getContent({
-          owner: (this.db as any).owner,
-          repo: (this.db as any).repo,
-          path: fullPath,
-          ref: (this.db as any).branch,
-        });
-        // If this is a single file, not a directory
-        if (!Array.isArray(data)) {
-          throw new Error(
-            `Expected a collection but found a file at ${this.path}`,
-          );
+        if (!directory) {
+          throw new InvalidArgumentError("A json-dir export needs a directory");
         }
-        // Get all documents in the collection
-        const docs = data.filter(
-          (item: any) => item.type === "file" && item.name.endsWith(".json"),
+        return { exported: await writeDirectory(records, directory) };
+      } catch (error: any) {
+        throw wrapError(error, "export documents");
+      }
+    })();
+  }
+
+  /**
+   * Import documents exported by export(), in commits of at most batchSize documents.
+   * Records with invalid paths, JSON or data are skipped and reported in the result.
+   * @param source - A stream of NDJSON, or the directory of a json-dir export
+   * @param options - The format, mode ("merge" or "overwrite"), batchSize and dryRun
+   * @returns The number of imported and failed records, the commits and the errors
+   */
+  async import(
+    source: AsyncIterable<string | Buffer | Uint8Array> | string,
+    options: ImportOptions = {},
+  ): Promise<ImportResult> {
+    try {
+      const json = options.format === "json-dir";
+      if (json !== (typeof source === "string")) {
+        throw new InvalidArgumentError(
+          json
+            ? "A json-dir import reads from a directory path"
+            : "An NDJSON import reads from a stream",
         );
+      }
+      return await importDocuments(
+        this,
+        typeof source === "string"
+          ? readDirectory(source)
+          : parseNdjson(source),
+        options,
+      );
+    } catch (error: any) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      throw wrapError(error, "import documents");
+    }
+  }
 
-        // Use Promise.all to fetch all documents concurrently
-        const results = await Promise.all(
-          docs.map(async (doc: any) => {
-            const id = doc.name.replace(".json", "");
-            const docRef = this.doc(id);
-            return docRef.get();
-          }),
+  /**
+   * Create a branch from the current head and get a database bound to it.
+   * The fork keeps this database's options, like basePath, indexes and validators,
+   * except offline: a queue belongs to one branch, so the fork writes online only.
+   * @param branch - The name of the new branch
+   * @returns A FireGit that reads and writes the new branch
+   */
+  async fork(branch: string): Promise<FireGit> {
+    try {
+      const head = await this.storage.getHead();
+      if (!head) {
+        throw new FireGitError(
+          "failed-precondition",
+          `Branch '${this.branch}' has no commits to fork`,
         );
+      }
+      await this.storage.createBranch(branch, head);
 
-        // Return a simplified result with just the documents
-        return {
-          docs: results,
-        };
-      } catch (error: any) {
-        if (error.status === 404) {
-          // Collection doesn't exist, return empty
-          return {
-            docs: [],
-          };
+      const fork = new FireGit(this.storage.withBranch(branch), {
+        basePath: this.basePath,
+        indexes: this.indexes,
+        maxConcurrency: this.maxConcurrency,
+        retry: this.retry,
+        format: this.format,
+        formats: this.formats,
+        codecs: this.codecs,
+        maxAttachmentSize: this.maxAttachmentSize,
+      });
+      fork.validators = [...this.validators];
+      fork.encryption = this.encryption;
+      return fork;
+    } catch (error: any) {
+      throw wrapError(error, "fork database");
+    }
+  }
+
+  /**
+   * Merge this database's branch into another branch, either by fast-forwarding it
+   * or by opening a pull request for review
+   * @param base - The branch to merge into, e.g. the branch the database was forked from
+   * @param options - viaPullRequest: open a pull request with the title and body instead
+   * @returns The new head of base, or the pull request
+   */
+  async mergeInto(
+    base: string,
+    options: MergeOptions = {},
+  ): Promise<MergeResult> {
+    try {
+      if (options.viaPullRequest) {
+        if (!this.storage.openPullRequest) {
+          throw new FireGitError(
+            "unimplemented",
+            "pull requests are only supported by GitHub storage",
+          );
         }
-        throw error;
+        const pullRequest = await this.storage.openPullRequest(base, {
+          title: options.title || `Merge '${this.branch}' into '${base}'`,
+          body: options.body,
+        });
+        return { pullRequest };
+      }
+
+      const head = await this.storage.getHead();
+      if (!head) {
+        throw new FireGitError(
+          "failed-precondition",
+          `Branch '${this.branch}' has no commits to merge`,
+        );
       }
+      await this.storage.fastForward(base, head);
+      return { sha: head };
     } catch (error: any) {
-      throw new Error(`Failed to get collection: ${error.message}`);
+      throw wrapError(error, `merge into '${base}'`);
     }
   }
 
   /**
-   * Generate a random document ID
-   * @returns A random ID
-   * @private
+   * List the documents that differ between another branch and this database's branch,
+   * with field-level differences. Only the two heads are compared, not their history.
+   * @param base - The branch or commit to compare against
+   * @returns The added, modified and removed documents, sorted by path
    */
-  private _generateId(): string {
-    return crypto.randomUUID();
+  async diff(base: string): Promise<DocumentDiff[]> {
+    try {
+      return await diffDocuments(this, base);
+    } catch (error: any) {
+      throw wrapError(error, `diff against '${base}'`);
+    }
   }
-}
-
-/**
- * Document class for Firestore-like interface
- */
-export class Document {
-  private db: FireGit;
-  path: string;
-  id: string;
-  collection: string;
-
-  constructor(db: FireGit, path: string) {
-    this.db = db;
-    this.path = path;
 
-    // Extract ID from path (last segment)
-    const segments = path.split("/");
-    this.id = segments[segments.length - 1];
+  /**
+   * Drop all cached file contents to free their memory
+   */
+  clearCache(): void {
+    this.storage.clearCache?.();
+  }
 
-    // Extract collection path
-    this.collection = segments.slice(0, segments.length - 1).join("/");
+  /**
+   * Create a write batch that commits several writes as a single Git commit
+   * @returns A WriteBatch object
+   */
+  batch(): WriteBatch {
+    return new WriteBatch(this);
   }
 
   /**
-   * Set document data
-   * @param data - The document data
-   * @param options - Options like {merge: true}
-   * @returns Document reference
+   * Run a read-modify-write transaction. The callback runs again if a document
+   * it read changed before its writes could be committed.
+   * @param updateFunction - Reads and writes through the given transaction
+   * @param options - Options like {maxAttempts: 5}
+   * @returns The value returned by updateFunction
    */
-  async set(data: any, options: SetOptions = {}): Promise<Document> {
-    try {
-      const fullPath = (this.db as any)._getFullPath(`${this.path}.json`);
-      let sha: string | undefined;
-
-      // Check if document exists if we need to merge
-      if (options.merge) {
-        try {
-          const { data: fileData } = await (
-            this.db as any
-          ).octokit.repos.getContent({
-            owner: (this.db as any).owner,
-            repo: (this.db as any).repo,
-            path: fullPath,
-            ref: (this.db as any).branch,
-          });
-
-          sha = fileData.sha;
-
-          // If merging, get existing data and merge with new data
-          const content = Buffer.from(fileData.content, "base64").toString(
-            "utf8",
+  async runTransaction<T>(
+    updateFunction: (transaction: Transaction) => Promise<T>,
+    options: TransactionOptions = {},
+  ): Promise<T> {
+    const maxAttempts = options.maxAttempts ?? 5;
+
+    let transaction = new Transaction(this);
+    let result = await updateFunction(transaction);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        if (await transaction._commit()) {
+          return result;
+        }
+        if (attempt >= maxAttempts) {
+          throw new ConflictError(
+            `the branch changed during all ${maxAttempts} attempts`,
           );
-          const existingData = JSON.parse(content);
-          data = { ...existingData, ...data };
-        } catch (error: any) {
-          if (error.status !== 404) {
-            throw error;
-          }
-          // Document doesn't exist, just use the new data
         }
-      } else {
-        // If not merging, check for SHA for updating
-        try {
-          const { data: fileData } = await (
-            this.db as any
-          ).octokit.repos.getContent({
-            owner: (this.db as any).owner,
-            repo: (this.db as any).repo,
-            path: fullPath,
-            ref: (this.db as any).branch,
-          });
-          sha = fileData.sha;
-        } catch (error: any) {
-          if (error.status !== 404) {
-            throw error;
-          }
-          // Document doesn't exist, will be created
+        // Replay the writes on the new head if nothing we read changed,
+        // otherwise run the whole callback again
+        if (await transaction._rebase()) {
+          continue;
+        }
+      } catch (error: any) {
+        if (error instanceof ValidationError) {
+          throw error;
         }
+        throw wrapError(error, "run transaction");
       }
 
-      // Prepare content
-      const content = Buffer.from(JSON.stringify(data, null, 2)).toString(
-        "base64",
-      );
+      transaction = new Transaction(this);
+      result = await updateFunction(transaction);
+    }
+  }
 
-      // Create or update the document
-      const commitMessage = sha
-        ? `Update document '${this.id}' in '${this.collection}'`
-        : `Create document '${this.id}' in '${this.collection}'`;
-
-      const params: any = {
-        owner: (this.db as any).owner,
-        repo: (this.db as any).repo,
-        path: fullPath,
-        message: commitMessage,
-        content,
-        branch: (this.db as any).branch,
-      };
-
-      if (sha) {
-        params.sha = sha;
-      }
+  /**
+   * Get the full path for a document or collection
+   * @param path - The path relative to basePath
+   * @returns The full path
+   */
+  _getFullPath(path: string): string {
+    if (!this.basePath || !path) {
+      return this.basePath || path;
+    }
+    return `${this.basePath}/${path}`;
+  }
 
-      await (this.db as any).octokit.repos.createOrUpdateFileContents(params);
+  /**
+   * Get the codec the documents of a collection are stored with.
+   * With encryption, the codec encrypts before serializing and decrypts after parsing.
+   * @param collectionPath - The collection path
+   * @param encrypted - Wrap the codec with the encryption, if it is configured (default true)
+   * @returns The codec
+   * @throws InvalidArgumentError if the configured format is not registered
+   */
+  _getCodec(collectionPath: string, encrypted = true): DocumentCodec {
+    const format = this.formats[collectionPath] || this.format;
+    const codec = this.codecs[format];
+    if (!codec) {
+      throw new InvalidArgumentError(`Unknown document format '${format}'`, {
+        path: collectionPath,
+      });
+    }
+    return this.encryption && encrypted
+      ? this.encryption.wrapCodec(
+          collectionPath,
+          codec,
+          this._getIndexedFields(collectionPath),
+        )
+      : codec;
+  }
 
-      return this;
-    } catch (error: any) {
-      throw new Error(`Failed to set document: ${error.message}`);
+  /**
+   * Get the full path of a document's file, with the extension of its codec
+   * @param documentPath - The document path relative to basePath
+   * @returns The full file path
+   */
+  _getFilePath(documentPath: string): string {
+    const collectionPath = documentPath.slice(0, documentPath.lastIndexOf("/"));
+    return this._getFullPath(
+      `${documentPath}${this._getCodec(collectionPath).extension}`,
+    );
+  }
+
+  /**
+   * Get the document a file belongs to
+   * @param filePath - The file path relative to basePath
+   * @returns The document path, or null for index files and files of other formats
+   */
+  _getDocumentPath(filePath: string): string | null {
+    // Document files sit at <collection>/<id><extension>, so their paths have an even
+    // number of segments; index files (<collection>/_indexes/<field>.json) don't.
+    // Dot-directories like .attachments hold no documents.
+    const segments = filePath.split("/");
+    if (
+      segments.length % 2 !== 0 ||
+      segments.some((segment) => segment.startsWith("."))
+    ) {
+      return null;
     }
+    const name = segments.pop()!;
+    const id = documentId(name, this._getCodec(segments.join("/")));
+    return id === null ? null : [...segments, id].join("/");
   }
 
   /**
-   * Update a document (merge)
-   * @param data - The partial data to update
-   * @returns Document reference
+   * Get the storage adapter reads and writes go through
+   * @returns The storage adapter
    */
-  async update(data: any): Promise<Document> {
-    return this.set(data, { merge: true });
+  _getStorage(): StorageAdapter {
+    return this.storage;
   }
 
   /**
-   * Get a document - returns flattened structure
-   * @returns The document data in a flat structure
+   * Get the maximum number of documents fetched in parallel
+   * @returns The concurrency limit
    */
-  async get(): Promise<DocumentData> {
-    try {
-      const fullPath = (this.db as any)._getFullPath(`${this.path}.json`);
+  _getMaxConcurrency(): number {
+    return this.maxConcurrency;
+  }
 
-      try {
-        const { data } = await (this.db as any).octokit.repos.getContent({
-          owner: (this.db as any).owner,
-          repo: (this.db as any).repo,
-          path: fullPath,
-          ref: (this.db as any).branch,
-        });
+  /**
+   * Get the largest attachment size
+   * @returns The limit in bytes
+   */
+  _getMaxAttachmentSize(): number {
+    return this.maxAttachmentSize;
+  }
 
-        // Decode the content
-        const content = Buffer.from(data.content, "base64").toString("utf8");
-        const documentData = JSON.parse(content);
+  /**
+   * Get the options for retrying writes that hit a moved branch
+   * @returns The retry options
+   */
+  _getRetryOptions(): RetryOptions {
+    return this.retry;
+  }
 
-        // Return flattened structure combining metadata and data
-        return {
-          id: this.id,
-          ...documentData,
-        };
-      } catch (error: any) {
-        if (error.status === 404) {
-          // Document doesn't exist
-          return {
-            id: this.id,
-          };
-        }
-        throw error;
-      }
-    } catch (error: any) {
-      throw new Error(`Failed to get document: ${error.message}`);
+  /**
+   * Check the data that would be stored for a document against the matching validators
+   * @param documentPath - The document path relative to basePath
+   * @param data - The data that would be stored, after merging
+   * @throws ValidationError if a validator rejects the data
+   */
+  _validate(documentPath: string, data: any): void {
+    const issues = this.validators.flatMap(({ pattern, validator }) => {
+      const params = matchPattern(pattern, documentPath);
+      return params
+        ? runValidator(validator, data, { path: documentPath, params })
+        : [];
+    });
+    if (issues.length > 0) {
+      throw new ValidationError(documentPath, issues);
     }
   }
 
   /**
-   * Delete a document
-   * @returns Success status
+   * Get the fields a collection keeps persisted indexes for
+   * @param collectionPath - The collection path
+   * @returns The indexed fields
    */
-  async delete(): Promise<boolean> {
-    try {
-      const fullPath = (this.db as any)._getFullPath(`${this.path}.json`);
-
-      try {
-        // Get the document's SHA
-        const { data } = await (this.db as any).octokit.repos.getContent({
-          owner: (this.db as any).owner,
-          repo: (this.db as any).repo,
-          path: fullPath,
-          ref: (this.db as any).branch,
-        });
+  _getIndexedFields(collectionPath: string): string[] {
+    return this.indexes[collectionPath] || [];
+  }
 
-        // Delete the document
-        await (this.db as any).octokit.repos.deleteFile({
-          owner: (this.db as any).owner,
-          repo: (this.db as any).repo,
-          path: fullPath,
-          message: `Delete document '${this.id}' from '${this.collection}'`,
-          sha: data.sha,
-          branch: (this.db as any).branch,
-        });
+  /**
+   * Get the queue of offline writes
+   * @returns The queue, or undefined if the offline option is not set
+   */
+  _getOfflineQueue(): OfflineQueue | undefined {
+    return this.offline;
+  }
 
-        return true;
-      } catch (error: any) {
-        if (error.status === 404) {
-          // Document doesn't exist, treat as success
-          return true;
-        }
-        throw error;
-      }
-    } catch (error: any) {
-      throw new Error(`Failed to delete document: ${error.message}`);
+  /**
+   * Get the queue of offline writes for an operation that needs it
+   * @param operation - The operation, for the error
+   * @returns The queue
+   * @throws FireGitError with code failed-precondition if the offline option is not set
+   * @private
+   */
+  private _requireOffline(operation: string): OfflineQueue {
+    if (!this.offline) {
+      throw new FireGitError(
+        "failed-precondition",
+        `Failed to ${operation}: Offline writes are not enabled - set the offline option`,
+      );
     }
+    return this.offline;
   }
+
+  /**
+   * Get the encryption of documents and fields
+   * @returns The encryption, or undefined if it is not configured
+   */
+  _getEncryption(): Encryption | undefined {
+    return this.encryption;
+  }
+}
+
+/**
+ * Collection class for Firestore-like interface
+ */
+export class Collection<T = DocumentData> {
+  private db: FireGit;
+  private converter?: DocumentConverter<T>;
+  path: string;
+
+  constructor(db: FireGit, path: string, converter?: DocumentConverter<T>) {
+    this.db = db;
+    this.path = path;
+    this.converter = converter;
+  }
+
+  /**
+   * Get a document reference
+   * @param docId - The document ID
+   * @returns A Document reference
+   */
+  doc(docId: string): Document<T> {
+    return new Document<T>(this.db, `${this.path}/${docId}`, this.converter);
+  }
+
+  /**
+   * Get a reference to the same collection that converts documents to and from U
+   * @param converter - Converts between U and the stored JSON
+   * @returns A typed Collection
+   */
+  withConverter<U>(converter: DocumentConverter<U>): Collection<U> {
+    return new Collection<U>(this.db, this.path, converter);
+  }
+
+  /**
+   * Add a new document with auto-generated ID
+   * @param data - The document data
+   * @returns Reference to the created document
+   */
+  async add(data: DocumentInput<T>): Promise<Document<T>> {
+    const id = this._generateId();
+    const docRef = this.doc(id);
+    await docRef.set(data);
+    return docRef;
+  }
+
+  /**
+   * Create a query that filters the documents
+   * @param fieldOrFilter - A field path, or a filter created with where(), and() or or()
+   * @param op - The comparison operator, when a field path is given
+   * @param value - The value to compare against, when a field path is given
+   * @returns A Query
+   */
+  where(
+    fieldOrFilter: string | Filter,
+    op?: WhereFilterOp,
+    value?: any,
+  ): Query<T> {
+    return new Query<T>(this).where(fieldOrFilter, op, value);
+  }
+
+  /**
+   * Create a query that sorts the documents by a field
+   * @param field - The field path
+   * @param direction - "asc" (default) or "desc"
+   * @returns A Query
+   */
+  orderBy(field: string, direction: OrderByDirection = "asc"): Query<T> {
+    return new Query<T>(this).orderBy(field, direction);
+  }
+
+  /**
+   * Create a query that returns the first documents
+   * @param limit - The maximum number of documents
+   * @returns A Query
+   */
+  limit(limit: number): Query<T> {
+    return new Query<T>(this).limit(limit);
+  }
+
+  /**
+   * Create a query that returns the last documents - requires orderBy()
+   * @param limit - The maximum number of documents
+   * @returns A Query
+   */
+  limitToLast(limit: number): Query<T> {
+    return new Query<T>(this).limitToLast(limit);
+  }
+
+  /**
+   * Create a query that starts at the given values (inclusive)
+   * @param values - Values for the orderBy fields, or a document
+   * @returns A Query
+   */
+  startAt(...values: any[]): Query<T> {
+    return new Query<T>(this).startAt(...values);
+  }
+
+  /**
+   * Create a query that starts after the given values (exclusive)
+   * @param values - Values for the orderBy fields, or a document
+   * @returns A Query
+   */
+  startAfter(...values: any[]): Query<T> {
+    return new Query<T>(this).startAfter(...values);
+  }
+
+  /**
+   * Create a query that ends at the given values (inclusive)
+   * @param values - Values for the orderBy fields, or a document
+   * @returns A Query
+   */
+  endAt(...values: any[]): Query<T> {
+    return new Query<T>(this).endAt(...values);
+  }
+
+  /**
+   * Create a query that ends before the given values (exclusive)
+   * @param values - Values for the orderBy fields, or a document
+   * @returns A Query
+   */
+  endBefore(...values: any[]): Query<T> {
+    return new Query<T>(this).endBefore(...values);
+  }
+
+  /**
+   * Get all documents in a collection
+   * @param options - at: read the collection at a past commit or date
+   * @returns Collection result with flattened documents
+   */
+  async get(options: GetOptions = {}): Promise<CollectionData<T>> {
+    const docs = await this._getDocuments(options);
+    return { docs: docs.map((data) => this._fromJSON(data)) };
+  }
+
+  /**
+   * Read the stored data of all documents, before any converter is applied
+   * @param options - at: read the collection at a past commit or date
+   * @returns The documents in a flat structure
+   * @private
+   */
+  private async _getDocuments(options: GetOptions): Promise<DocumentData[]> {
+    try {
+      const offline = this.db._getOfflineQueue();
+      if (offline && options.at === undefined) {
+        return await offline.readCollection(this);
+      }
+
+      const ref =
+        options.at === undefined
+          ? undefined
+          : await resolveAt(this.db, options.at);
+      const fullPath = this.db._getFullPath(this.path);
+      const entries =
+        ref === null
+          ? null
+          : await this.db._getStorage().listDirectory(fullPath, ref);
+      if (!entries) {
+        // Collection doesn't exist, return empty
+        return [];
+      }
+
+      // Get all documents in the collection
+      const codec = this.db._getCodec(this.path);
+      const docs = entries.flatMap((item) => {
+        const id = documentId(item.name, codec);
+        return item.type === "file" && id !== null ? [{ ...item, id }] : [];
+      });
+
+      // Fetch the blobs listed in the tree in bounded-concurrency batches
+      const results = await mapWithConcurrency(
+        docs,
+        this.db._getMaxConcurrency(),
+        async (doc) => {
+          const id = doc.id;
+          const content = await this.db._getStorage().readBlob(doc.sha);
+          return this.doc(id)._fromContent(content);
+        },
+      );
+
+      return results;
+    } catch (error: any) {
+      throw wrapError(error, "get collection", this.path);
+    }
+  }
+
+  /**
+   * Rebuild the persisted index files of the collection from its documents in one commit
+   * @returns Success status
+   */
+  async rebuildIndexes(): Promise<boolean> {
+    try {
+      return await retryOnConflict(this.db, async () => {
+        const storage = this.db._getStorage();
+        const headSha = await storage.getHead();
+        const indexes = await buildIndexes(this.db, this.path, headSha);
+
+        const changes = Object.entries(indexes).map(([field, index]) => ({
+          path: indexPath(this.db, this.path, field),
+          content: serializeIndex(index),
+        }));
+        if (changes.length > 0) {
+          await storage.commit(
+            changes,
+            `Rebuild indexes of '${this.path}'`,
+            headSha,
+          );
+        }
+
+        return true;
+      });
+    } catch (error: any) {
+      throw wrapError(error, "rebuild indexes", this.path);
+    }
+  }
+
+  /**
+   * Re-encrypt the documents of the collection with the current key in one commit,
+   * after rotating keys or changing the encryption options. The index files are
+   * rebuilt, since encrypted index values depend on the key.
+   * @returns The number of rewritten documents
+   */
+  async reEncrypt(): Promise<number> {
+    try {
+      const storage = this.db._getStorage();
+      const codec = this.db._getCodec(this.path);
+      const plainCodec = this.db._getCodec(this.path, false);
+      const encryption = this.db._getEncryption();
+      // Values under any known key are read, also where the options no longer cover them
+      const readCodec = encryption
+        ? encryption.decryptingCodec(plainCodec)
+        : codec;
+
+      return await retryOnConflict(this.db, async () => {
+        const headSha = await getHead(this.db);
+        const entries = headSha
+          ? await storage.listDirectory(
+              this.db._getFullPath(this.path),
+              headSha,
+            )
+          : null;
+        const files = (entries || []).filter(
+          (entry) =>
+            entry.type === "file" && documentId(entry.name, codec) !== null,
+        );
+
+        const rewritten = await mapWithConcurrency(
+          files,
+          this.db._getMaxConcurrency(),
+          async (entry) => {
+            const file = await storage.readFile(entry.path, headSha);
+            // New random IVs would rewrite documents that are already current
+            if (
+              !file ||
+              encryption?.isCurrent(this.path, file.content, plainCodec)
+            ) {
+              return null;
+            }
+            const content = codec.serialize(
+              parseDocument(file.content, entry.path, readCodec),
+            );
+            return content.equals(file.content)
+              ? null
+              : { path: entry.path, content };
+          },
+        );
+        const changes = rewritten.filter((change) => change !== null);
+        if (changes.length === 0) {
+          return 0;
+        }
+
+        const indexes = await buildIndexes(
+          this.db,
+          this.path,
+          headSha,
+          readCodec,
+        );
+        await storage.commit(
+          [
+            ...changes,
+            ...Object.entries(indexes).map(([field, index]) => ({
+              path: indexPath(this.db, this.path, field),
+              content: serializeIndex(index),
+            })),
+          ],
+          `Re-encrypt '${this.path}'`,
+          headSha,
+        );
+        return changes.length;
+      });
+    } catch (error: any) {
+      throw wrapError(error, "re-encrypt collection", this.path);
+    }
+  }
+
+  /**
+   * Listen to the documents of the collection by polling the branch head.
+   * The callback runs with all documents first, then whenever one of them changes.
+   * @param callback - Receives the documents and the added, modified and removed ones
+   * @param options - The polling interval and error handler
+   * @returns A function that stops listening
+   */
+  onSnapshot(
+    callback: (snapshot: QuerySnapshot<T>) => void,
+    options: SnapshotOptions = {},
+  ): Unsubscribe {
+    return this._watch((docs) => docs, callback, options);
+  }
+
+  /**
+   * Listen to the documents of the collection selected by a query
+   * @param select - Filters, sorts and limits the documents
+   * @param callback - Receives the selected documents and what changed
+   * @param options - The polling interval and error handler
+   * @returns A function that stops listening
+   */
+  _watch(
+    select: (docs: DocumentData[]) => DocumentData[],
+    callback: (snapshot: QuerySnapshot<T>) => void,
+    options: SnapshotOptions,
+  ): Unsubscribe {
+    return watchCollection(this.db, this, select, callback, options);
+  }
+
+  /**
+   * Restore the documents of the collection to a previous revision in one commit.
+   * Documents deleted since are brought back and documents added since are deleted;
+   * subcollections are left alone.
+   * @param at - The commit SHA, or a date to restore the state current at that time
+   * @returns Success status
+   */
+  async restore(at: string | Date): Promise<boolean> {
+    try {
+      return await retryOnConflict(this.db, async () => {
+        const storage = this.db._getStorage();
+        const fullPath = this.db._getFullPath(this.path);
+        const headSha = await getHead(this.db);
+        const ref = await resolveAt(this.db, at);
+        const codec = this.db._getCodec(this.path);
+
+        const documentFiles = async (commit: string | null) => {
+          const entries = commit
+            ? await storage.listDirectory(fullPath, commit)
+            : null;
+          return new Map(
+            (entries || []).flatMap((entry) => {
+              const id = documentId(entry.name, codec);
+              return entry.type === "file" && id !== null
+                ? [[id, entry.sha] as const]
+                : [];
+            }),
+          );
+        };
+        const [past, current] = await Promise.all([
+          documentFiles(ref),
+          documentFiles(headSha),
+        ]);
+
+        const writes: Write[] = [];
+        for (const [id, sha] of past) {
+          // Unchanged documents are left out of the commit
+          if (current.get(id) === sha) {
+            continue;
+          }
+          const data = parseDocument(
+            await storage.readBlob(sha),
+            this.db._getFilePath(`${this.path}/${id}`),
+            codec,
+          );
+          writes.push({ type: "set", doc: this.doc(id), data, options: {} });
+        }
+        for (const id of current.keys()) {
+          if (!past.has(id)) {
+            writes.push({ type: "delete", doc: this.doc(id) });
+          }
+        }
+
+        await commitWrites(
+          this.db,
+          writes,
+          headSha,
+          `Restore collection '${this.path}' to ${describeRevision(at)}`,
+        );
+        return true;
+      });
+    } catch (error: any) {
+      throw wrapError(error, "restore collection", this.path);
+    }
+  }
+
+  /**
+   * Delete all documents of the collection and their subcollections in one commit,
+   * along with the collection's index files
+   * @returns Success status
+   */
+  async delete(): Promise<boolean> {
+    try {
+      return await retryOnConflict(this.db, async () => {
+        const headSha = await getHead(this.db);
+        const files = await listFiles(
+          this.db,
+          this.db._getFullPath(this.path),
+          headSha,
+        );
+        if (files.length > 0) {
+          await this.db._getStorage().commit(
+            files.map((path) => ({ path, content: null })),
+            `Delete collection '${this.path}'`,
+            headSha,
+          );
+        }
+        return true;
+      });
+    } catch (error: any) {
+      throw wrapError(error, "delete collection", this.path);
+    }
+  }
+
+  /**
+   * Get the stored data of the documents that can match the filters,
+   * using persisted indexes when possible
+   * @param filters - The query filters, which all have to match
+   * @returns The candidate documents, before any converter is applied
+   */
+  async _getCandidates(filters: Filter[]): Promise<DocumentData[]> {
+    // Index files don't know about queued writes
+    const offline = this.db._getOfflineQueue();
+    const ids =
+      offline && (await offline.isLocal(this.path))
+        ? null
+        : await lookupIndexes(this.db, this.path, filters);
+    if (!ids) {
+      return this._getDocuments({});
+    }
+
+    try {
+      return await mapWithConcurrency(
+        ids,
+        this.db._getMaxConcurrency(),
+        async (id) => {
+          const fullPath = this.db._getFilePath(`${this.path}/${id}`);
+          const file = await this.db._getStorage().readFile(fullPath);
+          return file ? this.doc(id)._fromContent(file.content) : { id };
+        },
+      );
+    } catch (error: any) {
+      throw wrapError(error, "get collection", this.path);
+    }
+  }
+
+  /**
+   * Convert stored document data with the collection's converter
+   * @param data - The document data in a flat structure
+   * @returns The converted document
+   */
+  _fromJSON(data: DocumentData): T {
+    return this.doc(data.id)._fromJSON(data);
+  }
+
+  /**
+   * Get the reference of a document returned by _getCandidates()
+   * @param data - The document data
+   * @returns The document
+   */
+  _getRef(data: DocumentData): Document<T> {
+    return this.doc(data.id);
+  }
+
+  /**
+   * Generate a random document ID
+   * @returns A random ID
+   * @private
+   */
+  private _generateId(): string {
+    return crypto.randomUUID();
+  }
+}
+
+/**
+ * The collections with the same ID at any depth, read through collectionGroup() queries
+ */
+export class CollectionGroup<T = DocumentData> {
+  private db: FireGit;
+  private converter?: DocumentConverter<T>;
+  // The document path of each candidate, which may share its ID with documents of other parents
+  private paths = new WeakMap<DocumentData, string>();
+  collectionId: string;
+
+  constructor(
+    db: FireGit,
+    collectionId: string,
+    converter?: DocumentConverter<T>,
+  ) {
+    this.db = db;
+    this.collectionId = collectionId;
+    this.converter = converter;
+  }
+
+  /**
+   * Get the collection group with documents converted to and from U
+   * @param converter - Converts between U and the stored JSON
+   * @returns A typed CollectionGroup
+   */
+  withConverter<U>(converter: DocumentConverter<U>): CollectionGroup<U> {
+    return new CollectionGroup<U>(this.db, this.collectionId, converter);
+  }
+
+  /**
+   * Get the stored data of all documents in the group from one listing of the repository tree.
+   * Persisted indexes are not used, so the query filters all apply afterwards.
+   * @returns The documents, before any converter is applied
+   */
+  async _getCandidates(): Promise<DocumentData[]> {
+    try {
+      const ref = await getHead(this.db);
+      const basePath = this.db._getFullPath("");
+      const entries = ref
+        ? await this.db._getStorage().listTree(basePath, ref)
+        : null;
+
+      const prefix = basePath ? `${basePath}/` : "";
+      const docs = (entries || []).flatMap((entry) => {
+        const path = this.db._getDocumentPath(entry.path.slice(prefix.length));
+        const segments = path?.split("/") || [];
+        return segments[segments.length - 2] === this.collectionId
+          ? [{ ...entry, path: path! }]
+          : [];
+      });
+
+      return await mapWithConcurrency(
+        docs,
+        this.db._getMaxConcurrency(),
+        async (entry) => {
+          const content = await this.db._getStorage().readBlob(entry.sha);
+          const data = this.db.doc(entry.path)._fromContent(content);
+          this.paths.set(data, entry.path);
+          return data;
+        },
+      );
+    } catch (error: any) {
+      throw wrapError(error, "get collection group");
+    }
+  }
+
+  /**
+   * Convert stored document data with the group's converter
+   * @param data - The document data in a flat structure
+   * @returns The converted document
+   */
+  _fromJSON(data: DocumentData): T {
+    return this.converter ? this.converter.fromJSON(data) : (data as T);
+  }
+
+  /**
+   * Get the reference of a document returned by _getCandidates()
+   * @param data - The document data
+   * @returns The document, at its path in whichever parent it was found
+   */
+  _getRef(data: DocumentData): Document<T> {
+    return new Document<T>(this.db, this.paths.get(data)!, this.converter);
+  }
+
+  /**
+   * Listening is not supported for collection groups
+   * @throws Always
+   */
+  _watch(): Unsubscribe {
+    throw new FireGitError(
+      "unimplemented",
+      "Failed to listen to query: onSnapshot() is not supported for collection groups",
+    );
+  }
+}
+
+/**
+ * Document class for Firestore-like interface
+ */
+export class Document<T = DocumentData> {
+  private db: FireGit;
+  private converter?: DocumentConverter<T>;
+  path: string;
+  id: string;
+  collection: string;
+
+  constructor(db: FireGit, path: string, converter?: DocumentConverter<T>) {
+    this.db = db;
+    this.path = path;
+    this.converter = converter;
+
+    // Extract ID from path (last segment)
+    const segments = path.split("/");
+    this.id = segments[segments.length - 1];
+
+    // Extract collection path
+    this.collection = segments.slice(0, segments.length - 1).join("/");
+  }
+
+  /**
+   * The binary files attached to the document, stored in its .attachments directory
+   */
+  get attachments(): Attachments {
+    return new Attachments(this.db, this);
+  }
+
+  /**
+   * Get a reference to the same document that converts it to and from U
+   * @param converter - Converts between U and the stored JSON
+   * @returns A typed Document
+   */
+  withConverter<U>(converter: DocumentConverter<U>): Document<U> {
+    return new Document<U>(this.db, this.path, converter);
+  }
+
+  /**
+   * Set document data - the data goes through the converter, if any
+   * @param data - The document data
+   * @param options - Options like {merge: true}
+   * @returns Document reference
+   */
+  async set(data: DocumentInput<T>): Promise<Document<T>>;
+  async set(data: UpdateData<T>, options: SetOptions): Promise<Document<T>>;
+  async set(data: any, options: SetOptions = {}): Promise<Document<T>> {
+    return this._write({
+      type: "set",
+      doc: this,
+      data: this._toJSON(data),
+      options,
+    });
+  }
+
+  /**
+   * Update fields of a document - the fields bypass the converter.
+   * Keys may be field paths like "profile.address.city"; their values replace what is stored there.
+   * @param data - The fields to update
+   * @returns Document reference
+   */
+  async update(data: UpdateData<T>): Promise<Document<T>> {
+    return this._write({ type: "update", doc: this, data });
+  }
+
+  /**
+   * Commit a set or update of the document
+   * @param write - The write, with already converted data
+   * @returns Document reference
+   * @private
+   */
+  private async _write(write: Write): Promise<Document<T>> {
+    const offline = this.db._getOfflineQueue();
+    try {
+      if (offline && (await offline.isQueueing())) {
+        await offline.enqueue([write]);
+        return this;
+      }
+
+      return await retryOnConflict(this.db, async () => {
+        const storage = this.db._getStorage();
+        const fullPath = this.db._getFilePath(this.path);
+
+        if (this._isIndexed()) {
+          // Index files must change in the same commit as the document
+          const headSha = await getHead(this.db);
+          const exists =
+            (await readFile(this.db, fullPath, headSha, this._getCodec())) !==
+            null;
+          await commitWrites(
+            this.db,
+            [write],
+            headSha,
+            this._setMessage(exists),
+          );
+          return this;
+        }
+
+        // Look up the SHA for updating, and existing data if we need to merge
+        const existing = await storage.readFile(fullPath);
+        const sha = existing?.sha;
+        checkIfMatch(write, sha ?? null);
+
+        // Merge into the existing data and resolve FieldValue sentinels
+        const existingData = existing
+          ? parseDocument(existing.content, fullPath, this._getCodec())
+          : null;
+        const data = applyWrite(existingData, write, new Date().toISOString());
+        this.db._validate(this.path, data);
+
+        // Prepare content
+        const content = this._getCodec().serialize(data);
+
+        // Create or update the document
+        await storage.writeFile(
+          fullPath,
+          content,
+          this._setMessage(!!sha),
+          sha,
+        );
+
+        return this;
+      });
+    } catch (error: any) {
+      // Validation errors keep their issues for the caller
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      if (offline && errorCode(error) === "unavailable") {
+        await offline.enqueue([write]);
+        return this;
+      }
+      throw wrapError(error, "set document", this.path);
+    }
+  }
+
+  /**
+   * Get a document - returns flattened structure
+   * @param options - at: read the document at a past commit or date
+   * @returns The document data in a flat structure
+   */
+  async get(options: GetOptions = {}): Promise<T> {
+    try {
+      const offline = this.db._getOfflineQueue();
+      if (offline && options.at === undefined) {
+        return this._fromJSON(await offline.readDocument(this));
+      }
+
+      const ref =
+        options.at === undefined
+          ? undefined
+          : await resolveAt(this.db, options.at);
+      const fullPath = this.db._getFilePath(this.path);
+      const file =
+        ref === null
+          ? null
+          : await this.db._getStorage().readFile(fullPath, ref);
+
+      if (!file) {
+        // Document doesn't exist
+        return this._fromJSON({
+          id: this.id,
+        });
+      }
+
+      return this._fromJSON(this._fromContent(file.content));
+    } catch (error: any) {
+      throw wrapError(error, "get document", this.path);
+    }
+  }
+
+  /**
+   * Get a snapshot of the document with the metadata of its file.
+   * Looks up the last commit that changed the document, at the cost of one more request.
+   * @param options - at: read the document at a past commit or date
+   * @returns The snapshot - exists is false if the document does not exist
+   */
+  async getSnapshot(options: GetOptions = {}): Promise<DocumentSnapshot<T>> {
+    try {
+      const storage = this.db._getStorage();
+      const ref =
+        options.at === undefined
+          ? undefined
+          : await resolveAt(this.db, options.at);
+      const fullPath = this.db._getFilePath(this.path);
+      const file = ref === null ? null : await storage.readFile(fullPath, ref);
+
+      if (!file) {
+        return new DocumentSnapshot(this, null, null, 0, null);
+      }
+
+      const [lastCommit] = await storage.history(fullPath, { limit: 1, ref });
+      return new DocumentSnapshot(
+        this,
+        this._fromContent(file.content),
+        file.sha,
+        file.content.length,
+        lastCommit ?? null,
+      );
+    } catch (error: any) {
+      throw wrapError(error, "get document", this.path);
+    }
+  }
+
+  /**
+   * Listen to the document by polling the branch head.
+   * The callback runs with the current data first, then whenever the document changes.
+   * @param callback - Receives the document data, just the id if it does not exist
+   * @param options - The polling interval and error handler
+   * @returns A function that stops listening
+   */
+  onSnapshot(
+    callback: (data: T) => void,
+    options: SnapshotOptions = {},
+  ): Unsubscribe {
+    return watchDocument(this.db, this, callback, options);
+  }
+
+  /**
+   * Restore the document to a previous revision in a new commit.
+   * A document that did not exist at that revision is deleted.
+   * @param at - The commit SHA, or a date to restore the state current at that time
+   * @returns Document reference
+   */
+  async restore(at: string | Date): Promise<Document<T>> {
+    try {
+      return await retryOnConflict(this.db, async () => {
+        const fullPath = this.db._getFilePath(this.path);
+        const headSha = await getHead(this.db);
+        const past = await readFile(
+          this.db,
+          fullPath,
+          await resolveAt(this.db, at),
+          this._getCodec(),
+        );
+        const current = await readFile(
+          this.db,
+          fullPath,
+          headSha,
+          this._getCodec(),
+        );
+
+        // Nothing to do if the document is already in that state
+        if (past?.sha === current?.sha) {
+          return this;
+        }
+
+        await commitWrites(
+          this.db,
+          [
+            past
+              ? { type: "set", doc: this, data: past.data, options: {} }
+              : { type: "delete", doc: this },
+          ],
+          headSha,
+          `Restore document '${this.id}' in '${this.collection}' to ${describeRevision(at)}`,
+        );
+        return this;
+      });
+    } catch (error: any) {
+      throw wrapError(error, "restore document", this.path);
+    }
+  }
+
+  /**
+   * List the commits that changed the document, newest first
+   * @param options - limit: the maximum number of versions
+   * @returns The versions with the document data at each commit
+   */
+  async history(options: HistoryOptions = {}): Promise<DocumentVersion<T>[]> {
+    try {
+      const storage = this.db._getStorage();
+      const fullPath = this.db._getFilePath(this.path);
+      const commits = await storage.history(fullPath, options);
+
+      return await mapWithConcurrency(
+        commits,
+        this.db._getMaxConcurrency(),
+        async (commit) => {
+          const file = await storage.readFile(fullPath, commit.sha);
+          return {
+            ...commit,
+            data: file ? this._fromJSON(this._fromContent(file.content)) : null,
+          };
+        },
+      );
+    } catch (error: any) {
+      throw wrapError(error, "get document history", this.path);
+    }
+  }
+
+  /**
+   * Decode stored file content into the flattened document structure
+   * @param content - The file content
+   * @returns The document data in a flat structure
+   */
+  _fromContent(content: Buffer): DocumentData {
+    // Decode the content
+    const documentData = parseDocument(
+      content,
+      this.db._getFilePath(this.path),
+      this._getCodec(),
+    );
+
+    // Return flattened structure combining metadata and data
+    return {
+      id: this.id,
+      ...documentData,
+    };
+  }
+
+  /**
+   * Convert stored document data with the document's converter
+   * @param data - The document data in a flat structure
+   * @returns The converted document
+   */
+  _fromJSON(data: DocumentData): T {
+    return this.converter ? this.converter.fromJSON(data) : (data as T);
+  }
+
+  /**
+   * Convert a value to the data that is stored, with the document's converter
+   * @param value - The value to store
+   * @returns The data to store
+   */
+  _toJSON(value: any): any {
+    return this.converter ? this.converter.toJSON(value) : value;
+  }
+
+  /**
+   * List the subcollections of the document
+   * @returns The collections, sorted by path
+   */
+  async listCollections(): Promise<Collection[]> {
+    try {
+      return await listCollections(
+        this.db,
+        this.db._getFullPath(this.path),
+        `${this.path}/`,
+      );
+    } catch (error: any) {
+      throw wrapError(error, "list collections", this.path);
+    }
+  }
+
+  /**
+   * Delete a document
+   * @param options - recursive: also delete all subcollections in the same commit
+   * @returns Success status
+   */
+  async delete(options: DeleteOptions = {}): Promise<boolean> {
+    const offline = this.db._getOfflineQueue();
+    try {
+      if (offline && (await offline.isQueueing())) {
+        if (options.recursive) {
+          throw new FireGitError(
+            "unavailable",
+            "Recursive deletes cannot be queued offline - sync() first",
+          );
+        }
+        await offline.enqueue([{ type: "delete", doc: this }]);
+        return true;
+      }
+
+      return await retryOnConflict(this.db, async () => {
+        const storage = this.db._getStorage();
+        const fullPath = this.db._getFilePath(this.path);
+        const message = `Delete document '${this.id}' from '${this.collection}'`;
+
+        if (options.recursive) {
+          const headSha = await getHead(this.db);
+          const files = await listFiles(
+            this.db,
+            this.db._getFullPath(this.path),
+            headSha,
+          );
+          await commitWrites(
+            this.db,
+            [{ type: "delete", doc: this }],
+            headSha,
+            files.length > 0 ? `${message} with its subcollections` : message,
+            files.map((path) => ({ path, content: null })),
+          );
+          return true;
+        }
+
+        // Index and attachment files must change in the same commit as the document
+        const headSha = await getHead(this.db);
+        const attachments = await listFiles(
+          this.db,
+          this.db._getFullPath(`${this.path}/.attachments`),
+          headSha,
+        );
+        if (this._isIndexed() || attachments.length > 0) {
+          await commitWrites(
+            this.db,
+            [{ type: "delete", doc: this }],
+            headSha,
+            message,
+          );
+          return true;
+        }
+
+        // Get the document's SHA
+        const file = await storage.readFile(fullPath);
+        if (!file) {
+          // Document doesn't exist, treat as success
+          return true;
+        }
+
+        // Delete the document
+        await storage.deleteFile(fullPath, message, file.sha);
+
+        return true;
+      });
+    } catch (error: any) {
+      if (offline && !options.recursive && errorCode(error) === "unavailable") {
+        await offline.enqueue([{ type: "delete", doc: this }]);
+        return true;
+      }
+      throw wrapError(error, "delete document", this.path);
+    }
+  }
+
+  /**
+   * Build the commit message for a set operation
+   * @param exists - Whether the document already exists
+   * @returns The commit message
+   * @private
+   */
+  private _setMessage(exists: boolean): string {
+    return exists
+      ? `Update document '${this.id}' in '${this.collection}'`
+      : `Create document '${this.id}' in '${this.collection}'`;
+  }
+
+  /**
+   * Check whether the document's collection has persisted indexes
+   * @returns True if writes have to update index files
+   * @private
+   */
+  private _isIndexed(): boolean {
+    return this.db._getIndexedFields(this.collection).length > 0;
+  }
+
+  /**
+   * Get the codec the document is stored with
+   * @returns The codec of the document's collection
+   * @private
+   */
+  private _getCodec(): DocumentCodec {
+    return this.db._getCodec(this.collection);
+  }
+}
+
+/**
+ * List the collections stored in a directory
+ * @param db - The database
+ * @param fullPath - The full path of the directory
+ * @param prefix - The path of the parent document with a trailing slash, "" for the root
+ * @returns The collections, sorted by path
+ */
+async function listCollections(
+  db: FireGit,
+  fullPath: string,
+  prefix: string,
+): Promise<Collection[]> {
+  const entries = await db._getStorage().listDirectory(fullPath);
+  return (entries || [])
+    .filter((entry) => entry.type === "dir" && !entry.name.startsWith("."))
+    .map((entry) => entry.name)
+    .sort()
+    .map((name) => db.collection(`${prefix}${name}`));
+}
+
+/**
+ * Describe a revision for commit messages
+ * @param at - The commit SHA or date
+ * @returns The short SHA or the ISO date
+ */
+function describeRevision(at: string | Date): string {
+  return at instanceof Date ? at.toISOString() : at.slice(0, 7);
 }
 
 // Export the database class
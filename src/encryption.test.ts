@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { randomBytes } from "node:crypto";
+import FireGit from "./database.js";
+import { KeyProvider } from "./encryption.js";
+import { MemoryStorage } from "./storage/index.js";
+
+describe("encryption", () => {
+  const key = randomBytes(32);
+  let storage: MemoryStorage;
+
+  const stored = async (path: string) =>
+    (await storage.readFile(path))!.content.toString();
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+  });
+
+  it("should encrypt whole documents and read them back", async () => {
+    const db = new FireGit(storage, {
+      encryption: { key, collections: ["secrets"] },
+    });
+
+    await db.doc("secrets/api").set({ token: "abc123" });
+
+    expect(JSON.parse(await stored("secrets/api.json"))).toEqual({
+      $encrypted: expect.stringMatching(/^\$encrypted:v1:default:/),
+    });
+    expect(await stored("secrets/api.json")).not.toContain("abc123");
+    expect(await db.doc("secrets/api").get()).toEqual({
+      id: "api",
+      token: "abc123",
+    });
+    expect((await db.collection("secrets").get()).docs).toEqual([
+      { id: "api", token: "abc123" },
+    ]);
+
+    // A new random IV alone is no reason to rewrite a document
+    const head = await storage.getHead();
+    expect(await db.collection("secrets").reEncrypt()).toBe(0);
+    expect(await storage.getHead()).toBe(head);
+  });
+
+  it.each([
+    ["json", ".json"],
+    ["yaml", ".yaml"],
+    ["markdown", ".md"],
+  ])(
+    "should encrypt whole %s documents in a format-neutral envelope",
+    async (format, extension) => {
+      const db = new FireGit(storage, {
+        format,
+        encryption: { key, collections: ["secrets"] },
+      });
+
+      await db.doc("secrets/api").set({ token: "abc123", body: "Notes" });
+
+      expect(JSON.parse(await stored(`secrets/api${extension}`))).toEqual({
+        $encrypted: expect.stringMatching(/^\$encrypted:v1:default:/),
+      });
+      expect(await db.doc("secrets/api").get()).toEqual({
+        id: "api",
+        token: "abc123",
+        body: "Notes",
+      });
+      expect((await db.collection("secrets").get()).docs).toEqual([
+        { id: "api", token: "abc123", body: "Notes" },
+      ]);
+    },
+  );
+
+  it("should read envelopes stored in Markdown front matter", async () => {
+    const db = new FireGit(storage, {
+      format: "markdown",
+      encryption: { key, collections: ["secrets"] },
+    });
+    await db.doc("secrets/api").set({ token: "abc123" });
+    const { $encrypted } = JSON.parse(await stored("secrets/api.md"));
+
+    await storage.writeFile(
+      "secrets/old.md",
+      Buffer.from(`---\n$encrypted: "${$encrypted}"\n---\n`),
+      "Add an envelope written by the Markdown codec",
+    );
+
+    expect(await db.doc("secrets/old").get()).toEqual({
+      id: "old",
+      token: "abc123",
+    });
+  });
+
+  it("should encrypt listed fields and query them through indexes", async () => {
+    const db = new FireGit(storage, {
+      indexes: { users: ["email"] },
+      encryption: { key, fields: { users: ["email", "profile.phone"] } },
+    });
+
+    await db
+      .doc("users/alice")
+      .set({ name: "Alice", email: "a@x.io", profile: { phone: "123" } });
+    await db.doc("users/bob").set({ name: "Bob", email: "b@x.io" });
+
+    const alice = JSON.parse(await stored("users/alice.json"));
+    expect(alice.name).toBe("Alice");
+    expect(alice.email).toMatch(/^\$encrypted:v1:/);
+    expect(alice.profile.phone).toMatch(/^\$encrypted:v1:/);
+    expect(await stored("users/_indexes/email.json")).not.toContain("a@x.io");
+
+    expect(
+      (await db.collection("users").where("email", "==", "a@x.io").get()).docs,
+    ).toEqual([
+      {
+        id: "alice",
+        name: "Alice",
+        email: "a@x.io",
+        profile: { phone: "123" },
+      },
+    ]);
+
+    // Equal values are stored under one index entry
+    await db.doc("users/carol").set({ name: "Carol", email: "a@x.io" });
+    expect(
+      Object.keys(JSON.parse(await stored("users/_indexes/email.json"))),
+    ).toHaveLength(2);
+  });
+
+  it("should re-encrypt a collection with a rotated key", async () => {
+    const keys: Record<string, Buffer> = { v1: randomBytes(32) };
+    let current = "v1";
+    const keyProvider: KeyProvider = {
+      currentKeyId: () => current,
+      getKey: (id) => keys[id],
+    };
+    const db = new FireGit(storage, {
+      indexes: { users: ["email"] },
+      encryption: { keyProvider, fields: { users: ["email"] } },
+    });
+    await db.doc("users/alice").set({ email: "a@x.io" });
+    await db.doc("users/bob").set({ email: "b@x.io" });
+
+    keys.v2 = randomBytes(32);
+    current = "v2";
+    expect(await db.collection("users").reEncrypt()).toBe(2);
+    expect(await db.collection("users").reEncrypt()).toBe(0);
+
+    delete keys.v1;
+    expect(await stored("users/alice.json")).toContain("$encrypted:v1:v2:");
+    expect(await db.doc("users/alice").get()).toEqual({
+      id: "alice",
+      email: "a@x.io",
+    });
+    expect(
+      (await db.collection("users").where("email", "==", "b@x.io").get()).docs,
+    ).toEqual([{ id: "bob", email: "b@x.io" }]);
+  });
+
+  it("should reject wrong and unknown keys", async () => {
+    const db = new FireGit(storage, {
+      encryption: { key, collections: ["secrets"] },
+    });
+    await db.doc("secrets/api").set({ token: "abc123" });
+
+    const other = new FireGit(storage, {
+      encryption: {
+        keyProvider: { currentKeyId: () => "v2", getKey: () => key },
+        collections: ["secrets"],
+      },
+    });
+    const wrongKey = new FireGit(storage, {
+      encryption: { key: randomBytes(32), collections: ["secrets"] },
+    });
+
+    await expect(
+      new FireGit(storage).doc("secrets/api").get(),
+    ).resolves.toEqual({ id: "api", $encrypted: expect.any(String) });
+    await expect(other.doc("secrets/api").get()).resolves.toMatchObject({
+      token: "abc123",
+    });
+    await expect(wrongKey.doc("secrets/api").get()).rejects.toMatchObject({
+      code: "data-loss",
+      message:
+        "Failed to get document: An encrypted value could not be decrypted with key 'default'",
+    });
+    await expect(
+      new FireGit(storage, {
+        encryption: {
+          keyProvider: { currentKeyId: () => "v2", getKey: () => undefined },
+          collections: ["secrets"],
+        },
+      })
+        .doc("secrets/api")
+        .get(),
+    ).rejects.toMatchObject({
+      code: "permission-denied",
+      message: "Failed to get document: No encryption key 'default'",
+    });
+  });
+
+  it("should decrypt only what the options cover", async () => {
+    const encrypted = new FireGit(storage, {
+      encryption: { key, collections: ["secrets"] },
+    });
+    await encrypted.doc("secrets/api").set({ token: "abc123" });
+    await encrypted.doc("notes/n1").set({ text: "$encrypted:v1:not really" });
+
+    expect(await encrypted.doc("notes/n1").get()).toEqual({
+      id: "n1",
+      text: "$encrypted:v1:not really",
+    });
+
+    // Without the collection in the options, its documents are read as stored
+    // until reEncrypt() rewrites them in plaintext
+    const db = new FireGit(storage, { encryption: { key } });
+    expect(await db.doc("secrets/api").get()).toEqual({
+      id: "api",
+      $encrypted: expect.stringMatching(/^\$encrypted:v1:/),
+    });
+    expect(await db.collection("secrets").reEncrypt()).toBe(1);
+    expect(JSON.parse(await stored("secrets/api.json"))).toEqual({
+      token: "abc123",
+    });
+  });
+});
@@ -0,0 +1,402 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  hkdfSync,
+  randomBytes,
+} from "node:crypto";
+import type { DocumentCodec } from "./codec.js";
+import {
+  DataLossError,
+  InvalidArgumentError,
+  PermissionDeniedError,
+} from "./errors.js";
+import { getField } from "./query.js";
+
+/**
+ * KeyProvider - Supplies AES-256 keys by ID, for key rotation.
+ * Keys from a key management service have to be fetched before they are provided.
+ */
+export interface KeyProvider {
+  /**
+   * Get the ID of the key new values are encrypted with
+   * @returns The key ID, without ":"
+   */
+  currentKeyId(): string;
+  /**
+   * Get a key by ID
+   * @param id - The key ID stored with an encrypted value
+   * @returns The 32-byte key, or undefined if it is unknown
+   */
+  getKey(id: string): Buffer | undefined;
+}
+
+/**
+ * Options for client-side encryption
+ */
+export interface EncryptionOptions {
+  /** A 32-byte AES-256 key - stored values name it "default" */
+  key?: Buffer;
+  /** Supplies the keys instead of key, for key rotation */
+  keyProvider?: KeyProvider;
+  /** Collection paths whose documents are encrypted as a whole */
+  collections?: string[];
+  /** Field paths to encrypt, keyed by collection path */
+  fields?: Record<string, string[]>;
+}
+
+/** Encrypted values are strings starting with this prefix, followed by "<keyId>:<base64>" */
+const PREFIX = "$encrypted:v1:";
+
+/** The field that holds an encrypted document as a whole */
+const DOCUMENT_FIELD = "$encrypted";
+
+/** Encrypted documents are stored as {"$encrypted": ...} JSON in any format */
+const ENVELOPE = /^\s*\{\s*"\$encrypted"\s*:/;
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Encryption - Encrypts documents or fields with AES-256-GCM before they are serialized.
+ *
+ * Values are encrypted with a random IV. Indexed fields are encrypted deterministically,
+ * with an IV derived from the value, so that index files can be matched with == and in
+ * without storing the value in plaintext.
+ */
+export class Encryption {
+  private keyProvider: KeyProvider;
+  private collections: Set<string>;
+  private fields: Record<string, string[]>;
+
+  constructor(options: EncryptionOptions) {
+    if (!options.key && !options.keyProvider) {
+      throw new InvalidArgumentError("Encryption needs a key or a keyProvider");
+    }
+    const key = options.key;
+    this.keyProvider = options.keyProvider || {
+      currentKeyId: () => "default",
+      getKey: (id) => (id === "default" ? key : undefined),
+    };
+    this.collections = new Set(options.collections || []);
+    this.fields = options.fields || {};
+  }
+
+  /**
+   * Check whether a field of a collection is stored encrypted
+   * @param collectionPath - The collection path
+   * @param field - The field path
+   * @returns True if the field or the whole document is encrypted
+   */
+  isEncrypted(collectionPath: string, field: string): boolean {
+    return (
+      this.collections.has(collectionPath) ||
+      (this.fields[collectionPath] || []).some(
+        (encrypted) => field === encrypted || field.startsWith(`${encrypted}.`),
+      )
+    );
+  }
+
+  /**
+   * Wrap a codec so that it encrypts before serializing and decrypts after parsing
+   * @param collectionPath - The collection path
+   * @param codec - The codec of the collection
+   * @param indexedFields - The indexed fields, encrypted deterministically
+   * @returns The codec, unchanged if nothing in the collection is encrypted
+   */
+  wrapCodec(
+    collectionPath: string,
+    codec: DocumentCodec,
+    indexedFields: string[],
+  ): DocumentCodec {
+    const whole = this.collections.has(collectionPath);
+    const fields = this.fields[collectionPath] || [];
+    if (!whole && fields.length === 0) {
+      return codec;
+    }
+
+    return {
+      ...codec,
+      // Only what the options cover is decrypted, so plaintext that happens to
+      // look encrypted is read as it is
+      parse: (content) => {
+        const data = parseStored(content, codec);
+        if (whole) {
+          return isEncryptedValue(data?.[DOCUMENT_FIELD])
+            ? this.decryptValue(data[DOCUMENT_FIELD])
+            : data;
+        }
+        for (const field of fields) {
+          const value = getField(data, field);
+          if (isEncryptedValue(value)) {
+            setField(data, field, this.decryptValue(value));
+          }
+        }
+        return data;
+      },
+      serialize: (data) => {
+        if (whole) {
+          // Not the collection's codec, which may add fields like a Markdown body
+          return Buffer.from(
+            JSON.stringify(
+              { [DOCUMENT_FIELD]: this.encryptValue(data, false) },
+              null,
+              2,
+            ),
+          );
+        }
+        const result = JSON.parse(JSON.stringify(data));
+        for (const field of fields) {
+          const value = getField(result, field);
+          if (value !== undefined) {
+            setField(
+              result,
+              field,
+              this.encryptValue(value, indexedFields.includes(field)),
+            );
+          }
+        }
+        return codec.serialize(result);
+      },
+    };
+  }
+
+  /**
+   * Wrap a codec so that parsing decrypts every value encrypted with a known key, covered
+   * by the options or not - for rewriting documents after the options changed
+   * @param codec - The codec of the collection, without encryption
+   * @returns The codec
+   */
+  decryptingCodec(codec: DocumentCodec): DocumentCodec {
+    return {
+      ...codec,
+      parse: (content) => this._decrypt(parseStored(content, codec)),
+    };
+  }
+
+  /**
+   * Encrypt a value with the current key
+   * @param value - Any JSON value
+   * @param deterministic - Derive the IV from the value, so equal values give equal results
+   * @returns The encrypted value
+   */
+  encryptValue(value: any, deterministic: boolean): string {
+    const keyId = this.keyProvider.currentKeyId();
+    const key = this._getKey(keyId);
+    const plaintext = Buffer.from(JSON.stringify(value));
+
+    const iv = deterministic
+      ? createHmac("sha256", deriveIvKey(key))
+          .update(plaintext)
+          .digest()
+          .subarray(0, IV_LENGTH)
+      : randomBytes(IV_LENGTH);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext),
+      cipher.final(),
+    ]);
+
+    return `${PREFIX}${keyId}:${Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64")}`;
+  }
+
+  /**
+   * Decrypt a value encrypted by encryptValue
+   * @param token - The encrypted value
+   * @returns The original value
+   * @throws PermissionDeniedError if the key is unknown, DataLossError if the value was altered
+   */
+  decryptValue(token: string): any {
+    const separator = token.indexOf(":", PREFIX.length);
+    const keyId = token.slice(PREFIX.length, separator);
+    const bytes = Buffer.from(token.slice(separator + 1), "base64");
+    const key = this._getKey(keyId);
+
+    try {
+      const decipher = createDecipheriv(
+        "aes-256-gcm",
+        key,
+        bytes.subarray(0, IV_LENGTH),
+      );
+      decipher.setAuthTag(bytes.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+      const plaintext = Buffer.concat([
+        decipher.update(bytes.subarray(IV_LENGTH + TAG_LENGTH)),
+        decipher.final(),
+      ]);
+      return JSON.parse(plaintext.toString("utf8"));
+    } catch (error: any) {
+      throw new DataLossError(
+        `An encrypted value could not be decrypted with key '${keyId}'`,
+        { cause: error },
+      );
+    }
+  }
+
+  /**
+   * Compute the value an index stores for a field
+   * @param collectionPath - The collection path
+   * @param field - The indexed field path
+   * @param value - The plaintext value
+   * @returns The value, deterministically encrypted if the field is encrypted
+   */
+  indexValue(collectionPath: string, field: string, value: any): any {
+    if (value === undefined || !this.isEncrypted(collectionPath, field)) {
+      return value;
+    }
+    return this.encryptValue(value, true);
+  }
+
+  /**
+   * Check whether a stored document is encrypted as configured, with the current key,
+   * so that re-encrypting it would change nothing but the random IVs
+   * @param collectionPath - The collection path
+   * @param content - The stored file content
+   * @param codec - The collection's codec, without encryption
+   * @returns True if the document can be left as it is
+   */
+  isCurrent(
+    collectionPath: string,
+    content: Buffer,
+    codec: DocumentCodec,
+  ): boolean {
+    const keyId = this.keyProvider.currentKeyId();
+    const stored = parseStored(content, codec);
+    if (this.collections.has(collectionPath)) {
+      return keyIdOf(stored[DOCUMENT_FIELD]) === keyId;
+    }
+
+    // Only the configured fields are encrypted, all of them with the current key
+    const fields = this.fields[collectionPath] || [];
+    const encrypted = findEncrypted(stored);
+    return (
+      Object.entries(encrypted).every(
+        ([field, token]) => fields.includes(field) && keyIdOf(token) === keyId,
+      ) &&
+      fields.every(
+        (field) => getField(stored, field) === undefined || field in encrypted,
+      )
+    );
+  }
+
+  /**
+   * Decrypt all encrypted values in parsed data, at any depth
+   * @param data - The parsed data
+   * @returns The decrypted data
+   * @private
+   */
+  private _decrypt(data: any): any {
+    if (typeof data === "string") {
+      return isEncryptedValue(data) ? this.decryptValue(data) : data;
+    }
+    if (Array.isArray(data)) {
+      return data.map((item) => this._decrypt(item));
+    }
+    if (typeof data === "object" && data !== null) {
+      const keys = Object.keys(data);
+      if (isEncryptedValue(data[DOCUMENT_FIELD])) {
+        return this._decrypt(data[DOCUMENT_FIELD]);
+      }
+      return Object.fromEntries(
+        keys.map((key) => [key, this._decrypt(data[key])]),
+      );
+    }
+    return data;
+  }
+
+  /**
+   * Get a key from the provider
+   * @param keyId - The key ID
+   * @returns The key
+   * @throws PermissionDeniedError if the provider does not know the key
+   * @private
+   */
+  private _getKey(keyId: string): Buffer {
+    const key = this.keyProvider.getKey(keyId);
+    if (!key) {
+      throw new PermissionDeniedError(`No encryption key '${keyId}'`);
+    }
+    if (key.length !== 32) {
+      throw new InvalidArgumentError(
+        `Encryption key '${keyId}' has ${key.length} bytes instead of 32`,
+      );
+    }
+    return key;
+  }
+}
+
+/**
+ * Check whether a stored value is encrypted
+ * @param value - A value from a document or an index
+ * @returns True for values written by Encryption.encryptValue
+ */
+export function isEncryptedValue(value: any): value is string {
+  return typeof value === "string" && value.startsWith(PREFIX);
+}
+
+/**
+ * Parse a stored document without decrypting it
+ * @param content - The file content
+ * @param codec - The collection's codec, without encryption
+ * @returns The stored data, {"$encrypted": ...} for an encrypted document
+ */
+function parseStored(content: Buffer, codec: DocumentCodec): any {
+  const text = content.toString("utf8");
+  return ENVELOPE.test(text) ? JSON.parse(text) : codec.parse(content);
+}
+
+/**
+ * Get the ID of the key a value was encrypted with
+ * @param value - A stored value
+ * @returns The key ID, or undefined if the value is not encrypted
+ */
+function keyIdOf(value: any): string | undefined {
+  return isEncryptedValue(value)
+    ? value.slice(PREFIX.length, value.indexOf(":", PREFIX.length))
+    : undefined;
+}
+
+/**
+ * Find the encrypted values in stored data
+ * @param data - The stored data
+ * @param prefix - The field path of data, "" for the document
+ * @returns The encrypted values, keyed by field path
+ */
+function findEncrypted(data: any, prefix = ""): Record<string, string> {
+  if (isEncryptedValue(data)) {
+    return { [prefix]: data };
+  }
+  if (typeof data !== "object" || data === null) {
+    return {};
+  }
+  return Object.assign(
+    {},
+    ...Object.entries(data).map(([key, value]) =>
+      findEncrypted(value, prefix ? `${prefix}.${key}` : key),
+    ),
+  );
+}
+
+/**
+ * Derive the key for deterministic IVs, so the AES key is not used for HMAC directly
+ * @param key - The AES key
+ * @returns The derived key
+ */
+function deriveIvKey(key: Buffer): Buffer {
+  return Buffer.from(
+    hkdfSync("sha256", key, Buffer.alloc(0), "firegit deterministic iv", 32),
+  );
+}
+
+/**
+ * Replace the value at a field path that exists
+ * @param data - The data, changed in place
+ * @param field - The field path
+ * @param value - The new value
+ */
+function setField(data: any, field: string, value: any): void {
+  const segments = field.split(".");
+  const parent = segments
+    .slice(0, -1)
+    .reduce((node, segment) => node[segment], data);
+  parent[segments[segments.length - 1]] = value;
+}
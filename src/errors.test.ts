@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from "vitest";
+import FireGit from "./database.js";
+import {
+  ConflictError,
+  DataLossError,
+  FireGitError,
+  InvalidArgumentError,
+  NotFoundError,
+  PermissionDeniedError,
+  RateLimitError,
+  wrapError,
+} from "./errors.js";
+import { conflictError, MemoryStorage } from "./storage/index.js";
+import { ValidationError } from "./validation.js";
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`HTTP ${status}`), { status, response: { headers } });
+
+describe("wrapError", () => {
+  it("should pick the error class from the HTTP status", () => {
+    const cases: Array<[any, Function, string]> = [
+      [httpError(404), NotFoundError, "not-found"],
+      [httpError(409), ConflictError, "aborted"],
+      [httpError(403), PermissionDeniedError, "permission-denied"],
+      [
+        httpError(403, { "x-ratelimit-remaining": "0" }),
+        RateLimitError,
+        "resource-exhausted",
+      ],
+      [httpError(429), RateLimitError, "resource-exhausted"],
+      [httpError(422), InvalidArgumentError, "invalid-argument"],
+      [httpError(502), FireGitError, "unavailable"],
+      [new Error("Offline"), FireGitError, "unknown"],
+    ];
+
+    for (const [cause, errorClass, code] of cases) {
+      const error = wrapError(cause, "get document", "users/alice");
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error.code).toBe(code);
+      expect(error.message).toBe(`Failed to get document: ${cause.message}`);
+      expect(error.path).toBe("users/alice");
+      expect(error.status).toBe(cause.status);
+      expect(error.cause).toBe(cause);
+    }
+  });
+
+  it("should keep the code, status and path of FireGit errors", () => {
+    const inner = new DataLossError("users/alice.json is not valid JSON", {
+      path: "users/alice.json",
+    });
+
+    const error = wrapError(inner, "get collection", "users");
+
+    expect(error).toBeInstanceOf(DataLossError);
+    expect(error.path).toBe("users/alice.json");
+    expect(error.cause).toBe(inner);
+    expect(wrapError(conflictError("moved"), "set document").status).toBe(409);
+  });
+});
+
+describe("errors of operations", () => {
+  it("should report corrupt documents as data loss", async () => {
+    const db = new FireGit(
+      new MemoryStorage({ files: { "users/alice.json": "{ name: Alice" } }),
+    );
+
+    const error = await db
+      .doc("users/alice")
+      .get()
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(DataLossError);
+    expect(error.code).toBe("data-loss");
+    expect(error.path).toBe("users/alice.json");
+    expect(error.message).toMatch(
+      /^Failed to get document: users\/alice.json is not valid JSON/,
+    );
+    await expect(db.collection("users").get()).rejects.toThrow(DataLossError);
+  });
+
+  it("should carry the status and cause of storage errors", async () => {
+    const storage = new MemoryStorage();
+    const denied = httpError(403);
+    vi.spyOn(storage, "readFile").mockRejectedValue(denied);
+    const db = new FireGit(storage);
+
+    const error = await db
+      .doc("users/alice")
+      .get()
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(PermissionDeniedError);
+    expect(error).toMatchObject({
+      code: "permission-denied",
+      path: "users/alice",
+      status: 403,
+      cause: denied,
+    });
+  });
+
+  it("should report writes that keep hitting a moved branch as aborted", async () => {
+    const storage = new MemoryStorage();
+    vi.spyOn(storage, "writeFile").mockRejectedValue(conflictError("moved"));
+    const db = new FireGit(storage, { retry: { retries: 0 } });
+
+    await expect(db.doc("users/alice").set({})).rejects.toMatchObject({
+      name: "ConflictError",
+      code: "aborted",
+      status: 409,
+    });
+  });
+
+  it("should report invalid arguments", async () => {
+    const db = new FireGit(new MemoryStorage(), {
+      validators: { "users/{uid}": { required: ["name"] } },
+    });
+
+    expect(() => db.doc("users")).toThrow(InvalidArgumentError);
+    const error = await db
+      .doc("users/alice")
+      .set({})
+      .catch((error) => error);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toBeInstanceOf(InvalidArgumentError);
+    expect(error.code).toBe("invalid-argument");
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Stable error codes, following Firestore's
+ */
+export type FireGitErrorCode =
+  | "not-found"
+  | "already-exists"
+  | "aborted"
+  | "permission-denied"
+  | "resource-exhausted"
+  | "invalid-argument"
+  | "failed-precondition"
+  | "data-loss"
+  | "unimplemented"
+  | "unavailable"
+  | "unknown";
+
+/**
+ * Details attached to a FireGitError
+ */
+export interface FireGitErrorOptions {
+  /** The document or collection path the operation was on */
+  path?: string;
+  /** The HTTP status of the failed request, or 409 for conflicts */
+  status?: number;
+  /** The error that caused this one */
+  cause?: unknown;
+}
+
+/**
+ * FireGitError - Base class of all errors thrown by FireGit, told apart by code
+ */
+export class FireGitError extends Error {
+  readonly code: FireGitErrorCode;
+  readonly path?: string;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(
+    code: FireGitErrorCode,
+    message: string,
+    options: FireGitErrorOptions = {},
+  ) {
+    super(message);
+    this.name = "FireGitError";
+    this.code = code;
+    this.path = options.path;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * NotFoundError - A repository, branch, commit or blob does not exist
+ */
+export class NotFoundError extends FireGitError {
+  constructor(message: string, options: FireGitErrorOptions = {}) {
+    super("not-found", message, options);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * ConflictError - The branch or a file changed since it was read
+ */
+export class ConflictError extends FireGitError {
+  constructor(message: string, options: FireGitErrorOptions = {}) {
+    super("aborted", message, { ...options, status: options.status ?? 409 });
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * PermissionDeniedError - The token may not read or write the repository
+ */
+export class PermissionDeniedError extends FireGitError {
+  constructor(message: string, options: FireGitErrorOptions = {}) {
+    super("permission-denied", message, options);
+    this.name = "PermissionDeniedError";
+  }
+}
+
+/**
+ * RateLimitError - The API budget is used up, even after retrying
+ */
+export class RateLimitError extends FireGitError {
+  constructor(message: string, options: FireGitErrorOptions = {}) {
+    super("resource-exhausted", message, options);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * InvalidArgumentError - A path, query or write is malformed
+ */
+export class InvalidArgumentError extends FireGitError {
+  constructor(message: string, options: FireGitErrorOptions = {}) {
+    super("invalid-argument", message, options);
+    this.name = "InvalidArgumentError";
+  }
+}
+
+/**
+ * DataLossError - A stored document cannot be parsed by its codec
+ */
+export class DataLossError extends FireGitError {
+  constructor(message: string, options: FireGitErrorOptions = {}) {
+    super("data-loss", message, options);
+    this.name = "DataLossError";
+  }
+}
+
+/**
+ * Wrap an error from a failed operation, keeping its code, status and path.
+ * FireGit errors keep their class; other errors get one from their HTTP status.
+ * @param error - The error that made the operation fail
+ * @param operation - What failed, e.g. "get document"
+ * @param path - The document or collection path of the operation
+ * @returns The error to throw, with a message like "Failed to get document: ..."
+ */
+export function wrapError(
+  error: any,
+  operation: string,
+  path?: string,
+): FireGitError {
+  const message = `Failed to ${operation}: ${error?.message}`;
+
+  if (error instanceof FireGitError) {
+    const options = {
+      path: error.path ?? path,
+      status: error.status,
+      cause: error,
+    };
+    return createError(error.code, message, options);
+  }
+
+  const status = typeof error?.status === "number" ? error.status : undefined;
+  return createError(codeForError(error), message, {
+    path,
+    status,
+    cause: error,
+  });
+}
+
+/**
+ * Get the code of any error, like wrapError would give it
+ * @param error - The error, a FireGitError or e.g. an Octokit RequestError
+ * @returns The code
+ */
+export function errorCode(error: any): FireGitErrorCode {
+  return error instanceof FireGitError ? error.code : codeForError(error);
+}
+
+/**
+ * Create the error class that belongs to a code
+ * @param code - The error code
+ * @param message - The message
+ * @param options - The path, status and cause
+ * @returns The error
+ */
+export function createError(
+  code: FireGitErrorCode,
+  message: string,
+  options: FireGitErrorOptions = {},
+): FireGitError {
+  switch (code) {
+    case "not-found":
+      return new NotFoundError(message, options);
+    case "aborted":
+      return new ConflictError(message, options);
+    case "permission-denied":
+      return new PermissionDeniedError(message, options);
+    case "resource-exhausted":
+      return new RateLimitError(message, options);
+    case "invalid-argument":
+      return new InvalidArgumentError(message, options);
+    case "data-loss":
+      return new DataLossError(message, options);
+    default:
+      return new FireGitError(code, message, options);
+  }
+}
+
+/**
+ * Check whether a request failed because of a GitHub rate limit
+ * @param error - The error, e.g. an Octokit RequestError
+ * @returns True for 429s and for 403s of secondary or primary rate limits
+ */
+export function isRateLimited(error: any): boolean {
+  const status = error?.status;
+  const headers = error?.response?.headers || {};
+
+  // Secondary rate limits send retry-after, primary ones an exhausted budget
+  return (
+    status === 429 ||
+    (status === 403 &&
+      (headers["retry-after"] !== undefined ||
+        headers["x-ratelimit-remaining"] === "0"))
+  );
+}
+
+/**
+ * Map an error without a code to one, by its HTTP status
+ * @param error - The error, e.g. an Octokit RequestError
+ * @returns The code
+ */
+function codeForError(error: any): FireGitErrorCode {
+  const status = error?.status;
+  if (isRateLimited(error)) {
+    return "resource-exhausted";
+  }
+  switch (status) {
+    case 400:
+    case 422:
+      return "invalid-argument";
+    case 401:
+    case 403:
+      return "permission-denied";
+    case 404:
+      return "not-found";
+    case 409:
+      return "aborted";
+  }
+  if (typeof status === "number" && status >= 500) {
+    return "unavailable";
+  }
+  return "unknown";
+}
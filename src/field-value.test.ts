@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import FireGit from "./database.js";
+import {
+  arrayRemove,
+  arrayUnion,
+  deleteField,
+  increment,
+  serverTimestamp,
+} from "./field-value.js";
+import { MemoryStorage } from "./storage/index.js";
+
+describe("FieldValue", () => {
+  let db: FireGit;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+    db = new FireGit(
+      new MemoryStorage({
+        files: {
+          "users/alice.json": JSON.stringify({
+            name: "Alice",
+            visits: 2,
+            tags: ["admin", "dev"],
+            nickname: "Al",
+          }),
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should resolve sentinels against the stored fields on update", async () => {
+    await db.doc("users/alice").update({
+      visits: increment(3),
+      tags: arrayUnion("dev", "ops"),
+      nickname: deleteField(),
+      seenAt: serverTimestamp(),
+    });
+
+    expect(await db.doc("users/alice").get()).toEqual({
+      id: "alice",
+      name: "Alice",
+      visits: 5,
+      tags: ["admin", "dev", "ops"],
+      seenAt: "2024-01-01T00:00:00.000Z",
+    });
+
+    await db
+      .doc("users/alice")
+      .set(
+        { tags: arrayRemove("admin"), score: increment(1) },
+        { merge: true },
+      );
+
+    const alice = await db.doc("users/alice").get();
+    expect(alice.tags).toEqual(["dev", "ops"]);
+    expect(alice.score).toBe(1);
+  });
+
+  it("should resolve sentinels in batches and transactions", async () => {
+    await db
+      .batch()
+      .update(db.doc("users/alice"), { visits: increment(1) })
+      .update(db.doc("users/alice"), { visits: increment(1) })
+      .commit();
+
+    await db.runTransaction(async (transaction) => {
+      transaction.update(db.doc("users/alice"), { visits: increment(-4) });
+    });
+
+    expect((await db.doc("users/alice").get()).visits).toBe(0);
+  });
+
+  it("should treat sentinels without a stored value as a new field", async () => {
+    await db.doc("users/bob").set({
+      visits: increment(1),
+      tags: arrayUnion("dev"),
+      createdAt: serverTimestamp(),
+    });
+
+    expect(await db.doc("users/bob").get()).toEqual({
+      id: "bob",
+      visits: 1,
+      tags: ["dev"],
+      createdAt: "2024-01-01T00:00:00.000Z",
+    });
+    await expect(
+      db.doc("users/bob").set({ name: deleteField() }),
+    ).rejects.toThrow("deleteField() can only be used with update()");
+  });
+
+  it("should merge nested maps deeply with set and merge", async () => {
+    await db.doc("users/carol").set({
+      profile: { name: "Carol", address: { city: "Oslo", zip: "0150" } },
+    });
+
+    await db
+      .doc("users/carol")
+      .set(
+        { profile: { address: { city: "Bergen" }, age: 40 } },
+        { merge: true },
+      );
+
+    expect((await db.doc("users/carol").get()).profile).toEqual({
+      name: "Carol",
+      address: { city: "Bergen", zip: "0150" },
+      age: 40,
+    });
+  });
+
+  it("should update field paths and replace maps given as values", async () => {
+    await db.doc("users/carol").set({
+      profile: { name: "Carol", address: { city: "Oslo", zip: "0150" } },
+    });
+
+    await db.doc("users/carol").update({
+      "profile.address.city": "Bergen",
+      "profile.address.zip": deleteField(),
+      "stats.logins": increment(1),
+    });
+    expect(await db.doc("users/carol").get()).toEqual({
+      id: "carol",
+      profile: { name: "Carol", address: { city: "Bergen" } },
+      stats: { logins: 1 },
+    });
+
+    await db
+      .batch()
+      .update(db.doc("users/carol"), { profile: { name: "C" } })
+      .commit();
+    expect((await db.doc("users/carol").get()).profile).toEqual({
+      name: "C",
+    });
+  });
+
+  it("should only write the listed field paths with mergeFields", async () => {
+    await db.doc("users/carol").set({
+      name: "Carol",
+      profile: { city: "Oslo", zip: "0150" },
+    });
+
+    await db
+      .doc("users/carol")
+      .set(
+        { name: "Ignored", profile: { city: "Bergen", zip: "5003" } },
+        { mergeFields: ["profile.city"] },
+      );
+    expect(await db.doc("users/carol").get()).toEqual({
+      id: "carol",
+      name: "Carol",
+      profile: { city: "Bergen", zip: "0150" },
+    });
+
+    await expect(
+      db
+        .doc("users/carol")
+        .set({ name: "Carol" }, { mergeFields: ["profile.zip"] }),
+    ).rejects.toThrow(
+      "Field 'profile.zip' is listed in mergeFields but missing from the data",
+    );
+  });
+});
@@ -0,0 +1,262 @@
+import type { SetOptions } from "./database.js";
+import { getField } from "./query.js";
+import { InvalidArgumentError } from "./errors.js";
+
+/**
+ * FieldValue - A sentinel that set() and update() resolve against the stored value of a field
+ */
+export class FieldValue {
+  /** @private */
+  constructor(
+    readonly kind:
+      | "increment"
+      | "arrayUnion"
+      | "arrayRemove"
+      | "serverTimestamp"
+      | "deleteField",
+    readonly operand?: any,
+  ) {}
+}
+
+/**
+ * Add to a number field, treating a missing or non-numeric field as 0
+ * @param n - The amount to add, negative to subtract
+ * @returns A FieldValue sentinel
+ */
+export function increment(n: number): FieldValue {
+  return new FieldValue("increment", n);
+}
+
+/**
+ * Append elements to an array field that it does not contain yet
+ * @param elements - The elements to add
+ * @returns A FieldValue sentinel
+ */
+export function arrayUnion(...elements: any[]): FieldValue {
+  return new FieldValue("arrayUnion", elements);
+}
+
+/**
+ * Remove all occurrences of elements from an array field
+ * @param elements - The elements to remove
+ * @returns A FieldValue sentinel
+ */
+export function arrayRemove(...elements: any[]): FieldValue {
+  return new FieldValue("arrayRemove", elements);
+}
+
+/**
+ * Set a field to the time of the commit, as an ISO 8601 string
+ * @returns A FieldValue sentinel
+ */
+export function serverTimestamp(): FieldValue {
+  return new FieldValue("serverTimestamp");
+}
+
+/**
+ * Remove a field - only for update() and set() with merge
+ * @returns A FieldValue sentinel
+ */
+export function deleteField(): FieldValue {
+  return new FieldValue("deleteField");
+}
+
+/**
+ * Compute the data stored by a set, resolving FieldValue sentinels.
+ * With merge, nested maps are merged deeply; with mergeFields, only the listed field paths are written.
+ * @param existing - The stored data, null if the document does not exist
+ * @param data - The written data
+ * @param options - The set options
+ * @param timestamp - The commit time for serverTimestamp()
+ * @returns The data to store
+ */
+export function applySet(
+  existing: any | null,
+  data: any,
+  options: SetOptions,
+  timestamp: string,
+): any {
+  if (options.mergeFields) {
+    const result = clone(existing || {});
+    for (const field of options.mergeFields) {
+      const value = getField(data, field);
+      if (value === undefined) {
+        throw new InvalidArgumentError(
+          `Field '${field}' is listed in mergeFields but missing from the data`,
+        );
+      }
+      writePath(result, field.split("."), existing, value, timestamp);
+    }
+    return result;
+  }
+
+  if (options.merge) {
+    return mergeDeep(existing, data, timestamp);
+  }
+
+  return resolveValue(undefined, data, timestamp);
+}
+
+/**
+ * Compute the data stored by an update, resolving FieldValue sentinels.
+ * Keys are field paths like "profile.address.city"; their values replace what is stored there.
+ * @param existing - The stored data, null if the document does not exist
+ * @param data - The written fields, keyed by field path
+ * @param timestamp - The commit time for serverTimestamp()
+ * @returns The data to store
+ */
+export function applyUpdate(
+  existing: any | null,
+  data: any,
+  timestamp: string,
+): any {
+  const result = clone(existing || {});
+  for (const [field, value] of Object.entries(data)) {
+    writePath(result, field.split("."), existing, value, timestamp);
+  }
+  return result;
+}
+
+/**
+ * Write a value at a field path, creating intermediate maps as needed
+ * @param target - The data being built, changed in place
+ * @param path - The field path segments
+ * @param existing - The stored data, to resolve sentinels against
+ * @param value - The written value
+ * @param timestamp - The commit time for serverTimestamp()
+ */
+function writePath(
+  target: Record<string, any>,
+  path: string[],
+  existing: any,
+  value: any,
+  timestamp: string,
+): void {
+  const parents = path.slice(0, -1);
+  const key = path[path.length - 1];
+
+  let node = target;
+  for (const segment of parents) {
+    if (!isPlainObject(node[segment])) {
+      if (value instanceof FieldValue && value.kind === "deleteField") {
+        // Nothing to delete below a missing map
+        return;
+      }
+      node[segment] = {};
+    }
+    node = node[segment];
+  }
+
+  if (value instanceof FieldValue && value.kind === "deleteField") {
+    delete node[key];
+    return;
+  }
+  node[key] = resolveValue(
+    getField(existing, path.join(".")),
+    value,
+    timestamp,
+  );
+}
+
+/**
+ * Merge written data into stored data, descending into nested maps
+ * @param current - The stored value, undefined or null if there is none
+ * @param data - The written map
+ * @param timestamp - The commit time for serverTimestamp()
+ * @returns The merged map
+ */
+function mergeDeep(current: any, data: any, timestamp: string): any {
+  const result: Record<string, any> = isPlainObject(current)
+    ? clone(current)
+    : {};
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value instanceof FieldValue && value.kind === "deleteField") {
+      delete result[key];
+    } else if (isPlainObject(value)) {
+      result[key] = mergeDeep(result[key], value, timestamp);
+    } else {
+      result[key] = resolveValue(result[key], value, timestamp);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resolve the sentinels in a written value against the stored value
+ * @param current - The stored value, undefined if there is none
+ * @param value - The written value
+ * @param timestamp - The commit time for serverTimestamp()
+ * @returns The value to store
+ */
+function resolveValue(current: any, value: any, timestamp: string): any {
+  if (value instanceof FieldValue) {
+    switch (value.kind) {
+      case "increment":
+        return (typeof current === "number" ? current : 0) + value.operand;
+      case "arrayUnion": {
+        const result = Array.isArray(current) ? [...current] : [];
+        for (const element of value.operand) {
+          if (!result.some((item) => isEqual(item, element))) {
+            result.push(element);
+          }
+        }
+        return result;
+      }
+      case "arrayRemove":
+        return Array.isArray(current)
+          ? current.filter(
+              (item) =>
+                !value.operand.some((element: any) => isEqual(item, element)),
+            )
+          : [];
+      case "serverTimestamp":
+        return timestamp;
+      case "deleteField":
+        // Only valid where a field is merged or updated, see writePath and mergeDeep
+        throw new InvalidArgumentError(
+          "deleteField() can only be used with update() or set() with merge",
+        );
+    }
+  }
+
+  // Sentinels inside a replaced object have no stored value to apply to
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveValue(undefined, item, timestamp));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        resolveValue(undefined, item, timestamp),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Check whether a value is a plain object, not an array, date or class instance
+ */
+function isPlainObject(value: any): value is Record<string, any> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Copy stored JSON data so it can be changed in place
+ */
+function clone(value: any): any {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Compare two JSON values structurally
+ */
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
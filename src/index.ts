@@ -1 +1,97 @@
 export * from "./database.js";
+export { default } from "./database.js";
+export { WriteBatch } from "./batch.js";
+export { Transaction } from "./transaction.js";
+export type { TransactionOptions } from "./transaction.js";
+export {
+  GitHubStorage,
+  MemoryStorage,
+  LocalGitStorage,
+} from "./storage/index.js";
+export type {
+  StorageAdapter,
+  StoredFile,
+  StorageEntry,
+  FileChange,
+  CommitInfo,
+  PullRequestInfo,
+  GitHubStorageOptions,
+  RateLimitInfo,
+  MemoryStorageOptions,
+  LocalGitStorageOptions,
+} from "./storage/index.js";
+export { Query, where, and, or } from "./query.js";
+export type {
+  WhereFilterOp,
+  OrderByDirection,
+  Filter,
+  FieldFilter,
+  CompositeFilter,
+} from "./query.js";
+export { DocumentSnapshot } from "./snapshot.js";
+export type {
+  SnapshotOptions,
+  QuerySnapshot,
+  DocumentChange,
+  Unsubscribe,
+} from "./snapshot.js";
+export { ValidationError } from "./validation.js";
+export type {
+  ValidationIssue,
+  Validator,
+  ValidatorFunction,
+  ValidationContext,
+  JSONSchema,
+  JSONSchemaType,
+} from "./validation.js";
+export {
+  FieldValue,
+  increment,
+  arrayUnion,
+  arrayRemove,
+  serverTimestamp,
+  deleteField,
+} from "./field-value.js";
+export type { RetryOptions } from "./retry.js";
+export {
+  FireGitError,
+  NotFoundError,
+  ConflictError,
+  PermissionDeniedError,
+  RateLimitError,
+  InvalidArgumentError,
+  DataLossError,
+} from "./errors.js";
+export type { FireGitErrorCode, FireGitErrorOptions } from "./errors.js";
+export type { CacheOptions } from "./cache.js";
+export type { DocumentDiff, FieldChange } from "./branch.js";
+export { jsonCodec, yamlCodec, markdownCodec } from "./codec.js";
+export type { DocumentCodec, MarkdownCodecOptions } from "./codec.js";
+export { Attachments } from "./attachments.js";
+export type {
+  Attachment,
+  AttachmentMetadata,
+  PutAttachmentOptions,
+} from "./attachments.js";
+export type { KeyProvider, EncryptionOptions } from "./encryption.js";
+export { MemoryOfflineStore, FileOfflineStore } from "./offline.js";
+export type {
+  OfflineOptions,
+  OfflineStore,
+  OfflineState,
+  QueuedWrite,
+  CachedDocument,
+  SyncConflict,
+  ConflictResolver,
+  SyncOptions,
+  SyncResult,
+  FailedWrite,
+} from "./offline.js";
+export type {
+  ExportOptions,
+  ExportResult,
+  ExportRecord,
+  ImportOptions,
+  ImportError,
+  ImportResult,
+} from "./transfer.js";
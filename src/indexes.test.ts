@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import FireGit from "./database.js";
+import { MemoryStorage } from "./storage/index.js";
+
+describe("persisted indexes", () => {
+  let storage: MemoryStorage;
+  let db: FireGit;
+
+  const readIndex = async (field: string) => {
+    const file = await storage.readFile(`data/users/_indexes/${field}.json`);
+    return file ? JSON.parse(file.content.toString("utf8")) : null;
+  };
+
+  beforeEach(() => {
+    storage = new MemoryStorage({
+      files: {
+        "data/users/alice.json": JSON.stringify({ email: "a@x.io", age: 30 }),
+      },
+    });
+    db = new FireGit(storage, {
+      basePath: "data",
+      indexes: { users: ["email", "age"] },
+    });
+  });
+
+  it("should build missing index files in the same commit as the first write", async () => {
+    const commitSpy = vi.spyOn(storage, "commit");
+
+    await db.doc("users/bob").set({ email: "b@x.io", age: 25 });
+
+    expect(commitSpy).toHaveBeenCalledTimes(1);
+    const paths = commitSpy.mock.calls[0][0].map((change) => change.path);
+    expect(paths).toEqual([
+      "data/users/bob.json",
+      "data/users/_indexes/email.json",
+      "data/users/_indexes/age.json",
+    ]);
+    expect(commitSpy.mock.calls[0][1]).toBe("Create document 'bob' in 'users'");
+
+    expect(await readIndex("email")).toEqual({
+      '"a@x.io"': ["alice"],
+      '"b@x.io"': ["bob"],
+    });
+    expect(await readIndex("age")).toEqual({ "25": ["bob"], "30": ["alice"] });
+  });
+
+  it("should move and remove entries on update and delete", async () => {
+    await db.doc("users/bob").set({ email: "b@x.io", age: 25 });
+    await db.doc("users/bob").update({ age: 30 });
+
+    expect(await readIndex("age")).toEqual({ "30": ["alice", "bob"] });
+
+    await db.doc("users/alice").delete();
+
+    expect(await readIndex("age")).toEqual({ "30": ["bob"] });
+    expect(await readIndex("email")).toEqual({ '"b@x.io"': ["bob"] });
+  });
+
+  it("should update indexes for batch writes", async () => {
+    await db
+      .batch()
+      .set(db.doc("users/bob"), { email: "b@x.io", age: 25 })
+      .delete(db.doc("users/alice"))
+      .commit();
+
+    expect(await readIndex("email")).toEqual({ '"b@x.io"': ["bob"] });
+  });
+
+  it("should only fetch matching documents for indexed queries", async () => {
+    await db.doc("users/bob").set({ email: "b@x.io", age: 25 });
+    await db.doc("users/carol").set({ email: "c@x.io", age: 35 });
+    const readSpy = vi.spyOn(storage, "readFile");
+    const listSpy = vi.spyOn(storage, "listDirectory");
+
+    const result = await db
+      .collection("users")
+      .where("age", ">=", 30)
+      .orderBy("age")
+      .get();
+
+    expect(result.docs.map((doc) => doc.id)).toEqual(["alice", "carol"]);
+    expect(listSpy).not.toHaveBeenCalled();
+    const documentReads = readSpy.mock.calls
+      .map(([path]) => path)
+      .filter((path) => !path.includes("_indexes"));
+    expect(documentReads.sort()).toEqual([
+      "data/users/alice.json",
+      "data/users/carol.json",
+    ]);
+  });
+
+  it("should fall back to reading the collection without index files", async () => {
+    const listSpy = vi.spyOn(storage, "listDirectory");
+
+    const result = await db
+      .collection("users")
+      .where("email", "==", "a@x.io")
+      .get();
+
+    expect(result.docs.map((doc) => doc.id)).toEqual(["alice"]);
+    expect(listSpy).toHaveBeenCalled();
+  });
+
+  it("should rebuild index files from the documents", async () => {
+    await db.collection("users").rebuildIndexes();
+
+    expect(await readIndex("email")).toEqual({ '"a@x.io"': ["alice"] });
+    expect(await readIndex("age")).toEqual({ "30": ["alice"] });
+  });
+});
@@ -0,0 +1,260 @@
+import type { Document, FireGit } from "./database.js";
+import type { Filter } from "./query.js";
+import type { FileChange } from "./storage/index.js";
+import { readFile } from "./commit.js";
+import { DocumentCodec, documentId, jsonCodec } from "./codec.js";
+import { compareValues, getField, matchesValue } from "./query.js";
+import { isEncryptedValue } from "./encryption.js";
+
+/**
+ * A persisted index - maps JSON-encoded field values to document IDs
+ */
+export type IndexFile = Record<string, string[]>;
+
+/**
+ * A document's data before and after a commit, null when it does not exist
+ */
+interface IndexUpdate {
+  doc: Document<any>;
+  before?: any | null;
+  after?: any | null;
+}
+
+/**
+ * Get the full path of an index file
+ * @param db - The database
+ * @param collectionPath - The collection path
+ * @param field - The indexed field
+ * @returns The full path, e.g. users/_indexes/email.json
+ */
+export function indexPath(
+  db: FireGit,
+  collectionPath: string,
+  field: string,
+): string {
+  return db._getFullPath(`${collectionPath}/_indexes/${field}.json`);
+}
+
+/**
+ * Build index files for a collection from scratch
+ * @param db - The database
+ * @param collectionPath - The collection path
+ * @param ref - The commit to read the documents at
+ * @param codec - The codec to read the documents with (default the collection's)
+ * @returns The index per configured field
+ */
+export async function buildIndexes(
+  db: FireGit,
+  collectionPath: string,
+  ref: string | null,
+  codec: DocumentCodec = db._getCodec(collectionPath),
+): Promise<Record<string, IndexFile>> {
+  const fields = db._getIndexedFields(collectionPath);
+  const indexes: Record<string, IndexFile> = Object.fromEntries(
+    fields.map((field) => [field, {}]),
+  );
+  if (!ref) {
+    return indexes;
+  }
+
+  const entries = await db
+    ._getStorage()
+    .listDirectory(db._getFullPath(collectionPath), ref);
+
+  for (const entry of entries || []) {
+    const id = documentId(entry.name, codec);
+    if (entry.type !== "file" || id === null) {
+      continue;
+    }
+    const file = await readFile(db, entry.path, ref, codec);
+    for (const field of fields) {
+      addToIndex(
+        indexes[field],
+        indexValue(db, collectionPath, field, getField(file?.data, field)),
+        id,
+      );
+    }
+  }
+
+  return indexes;
+}
+
+/**
+ * Compute the index file changes for documents written in a commit.
+ * Missing index files are built from the collection first.
+ * @param db - The database
+ * @param updates - The written documents of indexed collections
+ * @param headSha - The commit the writes are applied on top of
+ * @returns The changed index files
+ */
+export async function buildIndexChanges(
+  db: FireGit,
+  updates: IndexUpdate[],
+  headSha: string | null,
+): Promise<FileChange[]> {
+  const byCollection = new Map<string, IndexUpdate[]>();
+  for (const update of updates) {
+    const collectionUpdates = byCollection.get(update.doc.collection) || [];
+    collectionUpdates.push(update);
+    byCollection.set(update.doc.collection, collectionUpdates);
+  }
+
+  const changes: FileChange[] = [];
+
+  for (const [collectionPath, collectionUpdates] of byCollection) {
+    let rebuilt: Record<string, IndexFile> | undefined;
+
+    for (const field of db._getIndexedFields(collectionPath)) {
+      const path = indexPath(db, collectionPath, field);
+      const existing = await readFile(db, path, headSha, jsonCodec);
+
+      let index: IndexFile;
+      if (existing) {
+        index = existing.data;
+      } else {
+        // The documents are read at the head, before this commit's writes
+        rebuilt = rebuilt || (await buildIndexes(db, collectionPath, headSha));
+        index = rebuilt[field];
+      }
+      const previous = existing ? serializeIndex(index) : null;
+
+      for (const { doc, before, after } of collectionUpdates) {
+        removeFromIndex(
+          index,
+          indexValue(db, collectionPath, field, getField(before, field)),
+          doc.id,
+        );
+        addToIndex(
+          index,
+          indexValue(db, collectionPath, field, getField(after, field)),
+          doc.id,
+        );
+      }
+
+      const content = serializeIndex(index);
+      if (!previous || !content.equals(previous)) {
+        changes.push({ path, content });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Find the IDs of documents that can match the filters, using persisted indexes
+ * @param db - The database
+ * @param collectionPath - The collection path
+ * @param filters - The query filters, which all have to match
+ * @returns The candidate IDs, or null if no index can answer the query
+ */
+export async function lookupIndexes(
+  db: FireGit,
+  collectionPath: string,
+  filters: Filter[],
+): Promise<string[] | null> {
+  const fields = db._getIndexedFields(collectionPath);
+  let candidates: Set<string> | null = null;
+
+  for (const filter of filters) {
+    if (
+      filter.type !== "field" ||
+      !fields.includes(filter.field) ||
+      !["==", "in", "<", "<=", ">", ">="].includes(filter.op)
+    ) {
+      continue;
+    }
+
+    const file = await readFile(
+      db,
+      indexPath(db, collectionPath, filter.field),
+      await db._getStorage().getHead(),
+      jsonCodec,
+    );
+    if (!file) {
+      // Index not built yet - fall back to reading the collection
+      continue;
+    }
+
+    const encryption = db._getEncryption();
+    const matching = new Set<string>();
+    for (const [key, ids] of Object.entries(file.data as IndexFile)) {
+      // Encrypted values are decrypted to match them, which also supports ranges
+      // and values encrypted with an older key
+      const value = JSON.parse(key);
+      const plain =
+        encryption && isEncryptedValue(value)
+          ? encryption.decryptValue(value)
+          : value;
+      if (matchesValue(plain, filter.op, filter.value)) {
+        ids.forEach((id) => matching.add(id));
+      }
+    }
+
+    candidates = candidates
+      ? new Set([...candidates].filter((id) => matching.has(id)))
+      : matching;
+  }
+
+  return candidates ? [...candidates].sort() : null;
+}
+
+/**
+ * Compute the value a document is stored under in an index
+ * @param db - The database
+ * @param collectionPath - The collection path
+ * @param field - The indexed field
+ * @param value - The field value
+ * @returns The value, deterministically encrypted if the field is encrypted
+ */
+function indexValue(
+  db: FireGit,
+  collectionPath: string,
+  field: string,
+  value: any,
+): any {
+  const encryption = db._getEncryption();
+  return encryption
+    ? encryption.indexValue(collectionPath, field, value)
+    : value;
+}
+
+/**
+ * Add a document ID under a value
+ */
+function addToIndex(index: IndexFile, value: any, id: string): void {
+  if (value === undefined) {
+    return;
+  }
+  const key = JSON.stringify(value);
+  const ids = index[key] || [];
+  if (!ids.includes(id)) {
+    index[key] = [...ids, id].sort();
+  }
+}
+
+/**
+ * Remove a document ID from under a value
+ */
+function removeFromIndex(index: IndexFile, value: any, id: string): void {
+  if (value === undefined) {
+    return;
+  }
+  const key = JSON.stringify(value);
+  const ids = (index[key] || []).filter((item) => item !== id);
+  if (ids.length > 0) {
+    index[key] = ids;
+  } else {
+    delete index[key];
+  }
+}
+
+/**
+ * Serialize an index with a stable key order, for readable diffs
+ */
+export function serializeIndex(index: IndexFile): Buffer {
+  const sorted = Object.keys(index)
+    .sort((a, b) => compareValues(JSON.parse(a), JSON.parse(b)))
+    .map((key) => [key, index[key]]);
+  return Buffer.from(JSON.stringify(Object.fromEntries(sorted), null, 2));
+}
@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import FireGit from "./database.js";
+import { increment } from "./field-value.js";
+import { FileOfflineStore, MemoryOfflineStore } from "./offline.js";
+import { MemoryStorage } from "./storage/index.js";
+
+describe("offline writes", () => {
+  let storage: MemoryStorage;
+  let db: FireGit;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    db = new FireGit(storage, { offline: {} });
+    await db.doc("users/alice").set({ name: "Alice", visits: 1 });
+    await db.doc("users/bob").set({ name: "Bob", visits: 1 });
+  });
+
+  it("should queue writes and read them on top of the cached documents", async () => {
+    await db.collection("users").get();
+    const head = await storage.getHead();
+    db.disableNetwork();
+
+    await db.doc("users/alice").update({ visits: increment(1) });
+    await db.doc("users/carol").set({ name: "Carol", visits: 0 });
+    await db.doc("users/bob").delete();
+
+    expect(await storage.getHead()).toBe(head);
+    expect(await db.doc("users/alice").get()).toEqual({
+      id: "alice",
+      name: "Alice",
+      visits: 2,
+    });
+    expect(
+      (await db.collection("users").where("visits", "<", 2).get()).docs,
+    ).toEqual([{ id: "carol", name: "Carol", visits: 0 }]);
+    await expect(db.doc("posts/unknown").get()).rejects.toMatchObject({
+      code: "unavailable",
+    });
+  });
+
+  it("should commit the queue in one commit on sync", async () => {
+    await db.doc("users/alice").get();
+    db.disableNetwork();
+    await db.doc("users/alice").update({ visits: increment(1) });
+    const batch = db.batch();
+    batch.set(db.doc("users/carol"), { name: "Carol" });
+    await batch.commit();
+    expect(await db.pendingWrites()).toHaveLength(2);
+
+    db.enableNetwork();
+    // Writes made while others are queued are queued too, to keep their order
+    await db.doc("users/alice").update({ name: "Alicia" });
+    const result = await db.sync();
+
+    expect(result).toEqual({
+      sha: await storage.getHead(),
+      synced: 3,
+      conflicts: [],
+      failed: [],
+    });
+    expect((await storage.history("users/alice.json"))[0].message).toBe(
+      "Sync 3 offline writes",
+    );
+    expect(await db.doc("users/alice").get()).toEqual({
+      id: "alice",
+      name: "Alicia",
+      visits: 2,
+    });
+    expect(await db.pendingWrites()).toEqual([]);
+  });
+
+  it("should report conflicts and resolve them with the callback", async () => {
+    await db.collection("users").get();
+    db.disableNetwork();
+    await db.doc("users/alice").update({ visits: increment(1) });
+    await db.doc("users/bob").update({ visits: increment(1) });
+
+    // Someone else changes alice in the meantime
+    await new FireGit(storage).doc("users/alice").update({ name: "Ally" });
+    db.enableNetwork();
+
+    const unresolved = await db.sync();
+    expect(unresolved.synced).toBe(1);
+    expect(unresolved.conflicts).toEqual([
+      {
+        path: "users/alice",
+        local: { name: "Alice", visits: 2 },
+        remote: { name: "Ally", visits: 1 },
+      },
+    ]);
+    expect(await db.pendingWrites()).toHaveLength(1);
+
+    const resolved = await db.sync({
+      onConflict: ({ local, remote }) => ({ ...remote, visits: local.visits }),
+    });
+    expect(resolved.synced).toBe(1);
+    expect(await db.doc("users/alice").get()).toEqual({
+      id: "alice",
+      name: "Ally",
+      visits: 2,
+    });
+    expect(await db.doc("users/bob").get()).toMatchObject({ visits: 2 });
+  });
+
+  it("should reject invalid writes and stale ifMatch before queueing them", async () => {
+    db.registerValidator("users/{uid}", (data) =>
+      typeof data.name === "string" ? true : ["name must be a string"],
+    );
+    await db.doc("users/alice").get();
+    db.disableNetwork();
+
+    await expect(
+      db.doc("users/alice").update({ name: 42 }),
+    ).rejects.toMatchObject({
+      name: "ValidationError",
+      path: "users/alice",
+      issues: [{ message: "name must be a string" }],
+    });
+    await expect(
+      db.doc("users/alice").set({ name: "Ally" }, { ifMatch: "stale" }),
+    ).rejects.toMatchObject({
+      code: "failed-precondition",
+      message:
+        "Failed to set document: Document 'users/alice' changed since it was read",
+    });
+    expect(await db.pendingWrites()).toEqual([]);
+  });
+
+  it("should report the writes sync() rejects and commit the others", async () => {
+    db.registerValidator("users/{uid}", (data) =>
+      typeof data.name === "string" ? true : ["name must be a string"],
+    );
+    db.disableNetwork();
+    // Neither document was read, so the writes can only be checked on sync
+    await db.doc("users/alice").update({ name: 42 });
+    await db.doc("users/bob").set({ name: "Robert" }, { ifMatch: "stale" });
+    await db.doc("users/carol").set({ name: "Carol" });
+    db.enableNetwork();
+
+    const result = await db.sync();
+
+    expect(result).toMatchObject({
+      synced: 1,
+      conflicts: [],
+      failed: [
+        {
+          write: { type: "update", path: "users/alice" },
+          error: { name: "ValidationError", path: "users/alice" },
+        },
+        {
+          write: { type: "set", path: "users/bob" },
+          error: { code: "failed-precondition", path: "users/bob" },
+        },
+      ],
+    });
+    expect(await db.pendingWrites()).toEqual([]);
+    expect(await db.doc("users/carol").get()).toEqual({
+      id: "carol",
+      name: "Carol",
+    });
+    expect(await db.doc("users/alice").get()).toMatchObject({ name: "Alice" });
+  });
+
+  it("should discard pending writes", async () => {
+    db.disableNetwork();
+    await db.doc("users/alice").set({ name: "Ally" });
+    await db.doc("users/bob").set({ name: "Robert" });
+
+    expect(await db.discardPendingWrites("users/alice")).toMatchObject([
+      { path: "users/alice" },
+    ]);
+    expect(await db.pendingWrites()).toMatchObject([{ path: "users/bob" }]);
+    expect(await db.discardPendingWrites()).toHaveLength(1);
+    expect(await db.pendingWrites()).toEqual([]);
+  });
+
+  it("should queue writes that fail because the storage is unavailable", async () => {
+    const commit = storage.commit.bind(storage);
+    storage.commit = async () => {
+      throw Object.assign(new Error("Service Unavailable"), { status: 503 });
+    };
+
+    await db.batch().set(db.doc("users/dave"), { name: "Dave" }).commit();
+    expect(await db.pendingWrites()).toMatchObject([
+      { type: "set", path: "users/dave", data: { name: "Dave" } },
+    ]);
+
+    storage.commit = commit;
+    expect((await db.sync()).synced).toBe(1);
+    expect(await new FireGit(storage).doc("users/dave").get()).toEqual({
+      id: "dave",
+      name: "Dave",
+    });
+  });
+
+  it("should persist the queue in a file", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "firegit-offline-"));
+    try {
+      const store = new FileOfflineStore(join(directory, "queue.json"));
+      const first = new FireGit(storage, { offline: { store } });
+      await first.doc("users/alice").get();
+      first.disableNetwork();
+      await first.doc("users/alice").update({
+        visits: increment(5),
+        lastVisit: new Date("2024-05-01T12:00:00.000Z"),
+      });
+
+      const second = new FireGit(storage, { offline: { store } });
+      expect(await second.doc("users/alice").get()).toMatchObject({
+        visits: 6,
+      });
+      await second.sync();
+      expect(await new FireGit(storage).doc("users/alice").get()).toEqual({
+        id: "alice",
+        name: "Alice",
+        visits: 6,
+        lastVisit: "2024-05-01T12:00:00.000Z",
+      });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should bound the cached documents and save them only when they change", async () => {
+    const store = new MemoryOfflineStore();
+    let saves = 0;
+    const save = store.save.bind(store);
+    store.save = async (state) => {
+      saves++;
+      await save(state);
+    };
+    const bounded = new FireGit(storage, {
+      offline: { store, maxDocuments: 3 },
+    });
+    await bounded.doc("users/carol").set({ name: "Carol" });
+
+    await bounded.collection("users").get();
+    expect(saves).toBe(1);
+    await bounded.collection("users").get();
+    await bounded.doc("users/bob").get();
+    expect(saves).toBe(1);
+
+    bounded.disableNetwork();
+    await bounded.doc("users/alice").set({ name: "Alicia" });
+    bounded.enableNetwork();
+    await bounded.doc("posts/p1").get();
+    await bounded.doc("posts/p2").get();
+
+    // alice has a queued write, so it stays cached, and bob was read after carol
+    expect(Object.keys((await store.load())!.documents)).toEqual([
+      "users/alice",
+      "posts/p1",
+      "posts/p2",
+    ]);
+  });
+
+  it("should need the offline option", async () => {
+    await expect(new FireGit(storage).sync()).rejects.toMatchObject({
+      code: "failed-precondition",
+    });
+  });
+});
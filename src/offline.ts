@@ -0,0 +1,788 @@
+import { randomUUID } from "node:crypto";
+import {
+  readFile as readFileContent,
+  rename,
+  writeFile,
+} from "node:fs/promises";
+import type {
+  Collection,
+  Document,
+  DocumentData,
+  FireGit,
+  SetOptions,
+} from "./database.js";
+import {
+  applyWrite,
+  checkIfMatch,
+  commitWrites,
+  getHead,
+  parseDocument,
+  readFile,
+  retryOnConflict,
+  Write,
+} from "./commit.js";
+import { documentId } from "./codec.js";
+import { FieldValue } from "./field-value.js";
+import { errorCode, FireGitError, wrapError } from "./errors.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { ValidationError } from "./validation.js";
+
+/**
+ * A write made while offline, waiting for sync()
+ */
+export interface QueuedWrite {
+  type: "set" | "update" | "delete";
+  /** The document path, relative to basePath */
+  path: string;
+  /** The written data, with FieldValue sentinels unresolved */
+  data?: any;
+  options?: SetOptions;
+  /**
+   * The blob SHA of the document file the write was based on, null if the document
+   * did not exist, undefined if it was never read - such writes never conflict
+   */
+  baseSha?: string | null;
+  /** When the write was queued, as an ISO 8601 string */
+  queuedAt: string;
+}
+
+/**
+ * The last read version of a document file
+ */
+export interface CachedDocument {
+  /** The blob SHA, null if the document did not exist */
+  sha: string | null;
+  /** The file content, base64-encoded */
+  content: string | null;
+}
+
+/**
+ * Everything an offline store persists
+ */
+export interface OfflineState {
+  writes: QueuedWrite[];
+  /** The last read version of each document, keyed by document path, least recently read first */
+  documents: Record<string, CachedDocument>;
+}
+
+/**
+ * OfflineStore - Persists the queued writes and cached documents between runs
+ */
+export interface OfflineStore {
+  /**
+   * Load the persisted state
+   * @returns The state, or null if nothing was saved yet
+   */
+  load(): Promise<OfflineState | null>;
+  /**
+   * Replace the persisted state
+   * @param state - The state, JSON-serializable
+   */
+  save(state: OfflineState): Promise<void>;
+}
+
+/**
+ * A document whose remote version changed after the offline writes to it were queued
+ */
+export interface SyncConflict {
+  /** The document path, relative to basePath */
+  path: string;
+  /** The data with the queued writes applied, null if they delete the document */
+  local: any | null;
+  /** The data at the head of the branch, null if the document was deleted */
+  remote: any | null;
+}
+
+/**
+ * Resolves a sync conflict - returns the data to store, null to delete the document,
+ * or undefined to keep the remote version and drop the queued writes
+ */
+export type ConflictResolver = (
+  conflict: SyncConflict,
+) => any | null | undefined | Promise<any | null | undefined>;
+
+/**
+ * Options for offline writes
+ */
+export interface OfflineOptions {
+  /** Where queued writes and cached documents are kept (default in memory) */
+  store?: OfflineStore;
+  /** Resolves conflicts during sync() - without one, conflicting writes stay queued */
+  onConflict?: ConflictResolver;
+  /**
+   * Maximum number of cached documents (default 1000). The least recently read ones are
+   * dropped first; documents with queued writes are kept.
+   */
+  maxDocuments?: number;
+}
+
+/**
+ * Options for sync()
+ */
+export interface SyncOptions {
+  /** Resolves conflicts, instead of the onConflict option */
+  onConflict?: ConflictResolver;
+}
+
+/**
+ * A queued write that sync() could not commit and removed from the queue
+ */
+export interface FailedWrite {
+  write: QueuedWrite;
+  /** A ValidationError, or a FireGitError with code failed-precondition for a stale ifMatch */
+  error: FireGitError;
+}
+
+/**
+ * The outcome of a sync
+ */
+export interface SyncResult {
+  /** The commit of the synced writes, null if nothing was committed */
+  sha: string | null;
+  /** The number of queued writes that were committed or resolved */
+  synced: number;
+  /** The conflicts found - unresolved ones stay queued */
+  conflicts: SyncConflict[];
+  /** The writes to documents that were rejected, in queue order */
+  failed: FailedWrite[];
+}
+
+/**
+ * MemoryOfflineStore - Keeps the offline state for the lifetime of the process
+ */
+export class MemoryOfflineStore implements OfflineStore {
+  private state: OfflineState | null = null;
+
+  async load(): Promise<OfflineState | null> {
+    return this.state && JSON.parse(JSON.stringify(this.state));
+  }
+
+  async save(state: OfflineState): Promise<void> {
+    this.state = JSON.parse(JSON.stringify(state));
+  }
+}
+
+/**
+ * FileOfflineStore - Keeps the offline state in a JSON file
+ */
+export class FileOfflineStore implements OfflineStore {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<OfflineState | null> {
+    try {
+      return JSON.parse(await readFileContent(this.path, "utf8"));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(state: OfflineState): Promise<void> {
+    // Replace the file at once, so a crash never leaves half a queue behind
+    const temporary = `${this.path}.${randomUUID()}.tmp`;
+    await writeFile(temporary, JSON.stringify(state));
+    await rename(temporary, this.path);
+  }
+}
+
+/**
+ * OfflineQueue - Queues writes while the repository is unreachable and commits them on sync().
+ *
+ * Writes are queued while the network is disabled, when they fail because the storage
+ * is unavailable, and while earlier writes are still queued, so they sync in order.
+ * Reads apply the queued writes on top of the remote data, or of the last read version
+ * of each document when the storage cannot be reached.
+ */
+export class OfflineQueue {
+  private db: FireGit;
+  private store: OfflineStore;
+  private onConflict?: ConflictResolver;
+  private maxDocuments: number;
+  private networkEnabled = true;
+  private state?: Promise<OfflineState>;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(db: FireGit, options: OfflineOptions) {
+    this.db = db;
+    this.store = options.store || new MemoryOfflineStore();
+    this.onConflict = options.onConflict;
+    this.maxDocuments = options.maxDocuments ?? 1000;
+  }
+
+  /**
+   * Turn the network on or off - while off, reads use cached documents and writes are queued
+   * @param enabled - Whether the storage may be used
+   */
+  setNetworkEnabled(enabled: boolean): void {
+    this.networkEnabled = enabled;
+  }
+
+  /**
+   * Check whether writes have to be queued instead of committed
+   * @returns True while the network is disabled or writes are queued
+   */
+  async isQueueing(): Promise<boolean> {
+    return !this.networkEnabled || (await this._load()).writes.length > 0;
+  }
+
+  /**
+   * Check whether reads of a collection have to go through the queue rather than indexes
+   * @param collectionPath - The collection path
+   * @returns True while the network is disabled or documents of the collection have queued writes
+   */
+  async isLocal(collectionPath: string): Promise<boolean> {
+    const { writes } = await this._load();
+    return (
+      !this.networkEnabled ||
+      writes.some((write) => parentPath(write.path) === collectionPath)
+    );
+  }
+
+  /**
+   * Get the queued writes
+   * @returns The writes in the order they were made
+   */
+  async pendingWrites(): Promise<QueuedWrite[]> {
+    return [...(await this._load()).writes];
+  }
+
+  /**
+   * Queue writes, to be committed by sync(). Like a commit, nothing is queued if any
+   * write is rejected. Documents that were never read are checked by sync() instead.
+   * @param writes - The writes, in order
+   * @throws ValidationError if a validator rejects the data with the queued writes applied
+   * @throws FireGitError with code failed-precondition if ifMatch differs from the last read version
+   */
+  async enqueue(writes: Write[]): Promise<void> {
+    const state = await this._load();
+    const queuedAt = new Date().toISOString();
+    const queue = { ...state, writes: [...state.writes] };
+
+    for (const write of writes) {
+      const path = write.doc.path;
+      const cached = state.documents[path];
+      if (cached) {
+        checkIfMatch(write, cached.sha);
+      }
+      queue.writes.push({
+        type: write.type,
+        path,
+        ...(write.type !== "delete" && { data: write.data }),
+        ...(write.type === "set" && { options: write.options }),
+        baseSha: cached?.sha,
+        queuedAt,
+      });
+    }
+
+    for (const path of new Set(writes.map((write) => write.doc.path))) {
+      const data = this._localData(this.db.doc(path), queue);
+      if (data !== undefined && data !== null) {
+        this.db._validate(path, data);
+      }
+    }
+
+    state.writes = queue.writes;
+    await this._save();
+  }
+
+  /**
+   * Remove queued writes without committing them
+   * @param path - Only remove the writes to this document path
+   * @returns The removed writes
+   */
+  async discardPendingWrites(path?: string): Promise<QueuedWrite[]> {
+    const state = await this._load();
+    const discarded = state.writes.filter(
+      (write) => path === undefined || write.path === path,
+    );
+    if (discarded.length > 0) {
+      state.writes = state.writes.filter((write) => !discarded.includes(write));
+      await this._save();
+    }
+    return discarded;
+  }
+
+  /**
+   * Read a document with the queued writes applied
+   * @param doc - The document
+   * @returns The document data in a flat structure, just the id if it does not exist
+   * @throws FireGitError with code unavailable if the document was never read and the storage is unreachable
+   */
+  async readDocument(doc: Document<any>): Promise<DocumentData> {
+    const state = await this._load();
+    const fullPath = this.db._getFilePath(doc.path);
+
+    if (this.networkEnabled) {
+      try {
+        const file = await this.db._getStorage().readFile(fullPath);
+        if (this._cache(state, { [doc.path]: cacheEntry(file) })) {
+          await this._save();
+        }
+      } catch (error: any) {
+        if (errorCode(error) !== "unavailable") {
+          throw error;
+        }
+      }
+    }
+
+    const data = this._applyQueued(doc, state);
+    return data === null ? { id: doc.id } : { id: doc.id, ...data };
+  }
+
+  /**
+   * Read the documents of a collection with the queued writes applied
+   * @param collection - The collection
+   * @returns The documents in a flat structure
+   */
+  async readCollection(collection: Collection<any>): Promise<DocumentData[]> {
+    const state = await this._load();
+
+    if (this.networkEnabled) {
+      try {
+        const files = await this._listFiles(collection.path);
+        // Documents deleted remotely are dropped, unless they have queued writes
+        let changed = false;
+        for (const path of Object.keys(state.documents)) {
+          if (
+            parentPath(path) === collection.path &&
+            !files[path] &&
+            !state.writes.some((write) => write.path === path)
+          ) {
+            delete state.documents[path];
+            changed = true;
+          }
+        }
+        if (this._cache(state, files) || changed) {
+          await this._save();
+        }
+      } catch (error: any) {
+        if (errorCode(error) !== "unavailable") {
+          throw error;
+        }
+      }
+    }
+
+    const paths = new Set(
+      [
+        ...Object.keys(state.documents),
+        ...state.writes.map((write) => write.path),
+      ].filter((path) => parentPath(path) === collection.path),
+    );
+    return [...paths].sort().flatMap((path) => {
+      const doc = collection.doc(path.slice(collection.path.length + 1));
+      const data = this._applyQueued(doc, state);
+      return data === null ? [] : [{ id: doc.id, ...data }];
+    });
+  }
+
+  /**
+   * Commit the queued writes in one commit. Documents whose remote version changed since
+   * they were read are passed to the conflict resolver; without one, their writes stay queued.
+   * Writes to documents that fail validation or ifMatch are removed and reported, and the
+   * others committed. The resolver may run again if the branch moves during the sync.
+   * @param options - onConflict: resolves conflicts instead of the onConflict option
+   * @returns The commit, the number of synced writes, the conflicts and the failed writes
+   */
+  async sync(options: SyncOptions = {}): Promise<SyncResult> {
+    const state = await this._load();
+    const onConflict = options.onConflict || this.onConflict;
+
+    const byPath = new Map<string, QueuedWrite[]>();
+    for (const write of state.writes) {
+      byPath.set(write.path, [...(byPath.get(write.path) || []), write]);
+    }
+    if (byPath.size === 0) {
+      return { sha: null, synced: 0, conflicts: [], failed: [] };
+    }
+
+    try {
+      const result = await retryOnConflict(this.db, async () => {
+        const headSha = await getHead(this.db);
+        // The writes to commit for each document, with the queued writes they settle
+        let documents: Array<{
+          path: string;
+          writes: Write[];
+          queued: QueuedWrite[];
+        }> = [];
+        const conflicts: SyncConflict[] = [];
+        const failed: FailedWrite[] = [];
+
+        for (const [path, queued] of byPath) {
+          const doc = this.db.doc(path);
+          const baseSha = queued[0].baseSha;
+          const remote =
+            baseSha === undefined
+              ? undefined
+              : await readFile(
+                  this.db,
+                  this.db._getFilePath(path),
+                  headSha,
+                  this.db._getCodec(doc.collection),
+                );
+          if (remote === undefined || (remote?.sha ?? null) === baseSha) {
+            documents.push({
+              path,
+              writes: queued.map((write) => toWrite(doc, write)),
+              queued,
+            });
+            continue;
+          }
+
+          const conflict: SyncConflict = {
+            path,
+            local: this._applyQueued(doc, state),
+            remote: remote ? remote.data : null,
+          };
+          conflicts.push(conflict);
+          if (!onConflict) {
+            continue;
+          }
+          const resolved = await onConflict(conflict);
+          documents.push({
+            path,
+            writes:
+              resolved === null
+                ? [{ type: "delete", doc }]
+                : resolved !== undefined
+                  ? [{ type: "set", doc, data: resolved, options: {} }]
+                  : [],
+            queued,
+          });
+        }
+
+        // Commit without the documents that are rejected, one at a time
+        for (;;) {
+          const writes = documents.flatMap((document) => document.writes);
+          const count = documents.flatMap((document) => document.queued).length;
+          try {
+            const sha =
+              writes.length > 0
+                ? await commitWrites(
+                    this.db,
+                    writes,
+                    headSha,
+                    `Sync ${count} offline ${count === 1 ? "write" : "writes"}`,
+                  )
+                : null;
+            const synced = documents.flatMap((document) => document.queued);
+            return { sha, headSha, synced, conflicts, failed };
+          } catch (error: any) {
+            const rejected =
+              error instanceof ValidationError ||
+              errorCode(error) === "failed-precondition"
+                ? documents.find((document) => document.path === error.path)
+                : undefined;
+            if (!rejected) {
+              throw error;
+            }
+            documents = documents.filter((document) => document !== rejected);
+            failed.push(...rejected.queued.map((write) => ({ write, error })));
+          }
+        }
+      });
+
+      // Remember the synced documents as committed, for later offline reads
+      const settled = [
+        ...result.synced,
+        ...result.failed.map((failure) => failure.write),
+      ];
+      const paths = [...new Set(settled.map((write) => write.path))];
+      const ref = result.sha ?? result.headSha;
+      const files = await mapWithConcurrency(
+        paths,
+        this.db._getMaxConcurrency(),
+        async (path) =>
+          ref
+            ? this.db._getStorage().readFile(this.db._getFilePath(path), ref)
+            : null,
+      );
+      const queue = state.writes;
+      state.writes = queue.filter((write) => !settled.includes(write));
+      this._cache(
+        state,
+        Object.fromEntries(
+          paths.map((path, i) => [path, cacheEntry(files[i])]),
+        ),
+      );
+      await this._save();
+
+      return {
+        sha: result.sha,
+        synced: result.synced.length,
+        conflicts: result.conflicts,
+        failed: result.failed.sort(
+          (a, b) => queue.indexOf(a.write) - queue.indexOf(b.write),
+        ),
+      };
+    } catch (error: any) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      throw wrapError(error, "sync offline writes");
+    }
+  }
+
+  /**
+   * Compute a document's data from its cached version and its queued writes
+   * @param doc - The document
+   * @param state - The queued writes and cached documents
+   * @returns The data, null if the document does not exist
+   * @throws FireGitError with code unavailable if the data depends on a version that was never read
+   * @private
+   */
+  private _applyQueued(doc: Document<any>, state: OfflineState): any | null {
+    const data = this._localData(doc, state);
+    if (data === undefined) {
+      throw new FireGitError(
+        "unavailable",
+        `Document '${doc.path}' was not read before going offline`,
+        { path: doc.path },
+      );
+    }
+    return data;
+  }
+
+  /**
+   * Compute a document's data from its cached version and its queued writes, if known
+   * @param doc - The document
+   * @param state - The queued writes and cached documents
+   * @returns The data, null if the document does not exist, undefined if it depends on a version that was never read
+   * @private
+   */
+  private _localData(
+    doc: Document<any>,
+    state: OfflineState,
+  ): any | null | undefined {
+    const cached = state.documents[doc.path];
+    let data: any | null | undefined;
+    if (cached) {
+      data =
+        cached.content === null
+          ? null
+          : parseDocument(
+              Buffer.from(cached.content, "base64"),
+              this.db._getFilePath(doc.path),
+              this.db._getCodec(doc.collection),
+            );
+    }
+
+    for (const queued of state.writes) {
+      if (queued.path !== doc.path) {
+        continue;
+      }
+      const write = toWrite(doc, queued);
+      // Sets without merge and deletes don't depend on the stored data
+      const replaces =
+        write.type === "delete" ||
+        (write.type === "set" &&
+          !write.options.merge &&
+          !write.options.mergeFields);
+      if (data === undefined && !replaces) {
+        break;
+      }
+      data = applyWrite(data ?? null, write, queued.queuedAt);
+    }
+    return data;
+  }
+
+  /**
+   * Cache read documents as the most recently read ones, dropping the least recently
+   * read documents without queued writes beyond maxDocuments
+   * @param state - The state, changed in place
+   * @param documents - The read documents, keyed by document path
+   * @returns True if the cached contents changed, so the state has to be saved
+   * @private
+   */
+  private _cache(
+    state: OfflineState,
+    documents: Record<string, CachedDocument>,
+  ): boolean {
+    let changed = false;
+    for (const [path, entry] of Object.entries(documents)) {
+      changed ||= state.documents[path]?.sha !== entry.sha;
+      // Objects iterate in insertion order, so reinserting moves the entry to the end
+      delete state.documents[path];
+      state.documents[path] = entry;
+    }
+
+    const pending = new Set(state.writes.map((write) => write.path));
+    let excess = Object.keys(state.documents).length - this.maxDocuments;
+    for (const path of Object.keys(state.documents)) {
+      if (excess <= 0) {
+        break;
+      }
+      if (!pending.has(path)) {
+        delete state.documents[path];
+        changed = true;
+        excess--;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Read the document files of a collection
+   * @param collectionPath - The collection path
+   * @returns The files, keyed by document path
+   * @private
+   */
+  private async _listFiles(
+    collectionPath: string,
+  ): Promise<Record<string, CachedDocument>> {
+    const storage = this.db._getStorage();
+    const codec = this.db._getCodec(collectionPath);
+    const entries = await storage.listDirectory(
+      this.db._getFullPath(collectionPath),
+    );
+    const files = (entries || []).flatMap((entry) => {
+      const id = documentId(entry.name, codec);
+      return entry.type === "file" && id !== null ? [{ ...entry, id }] : [];
+    });
+
+    const contents = await mapWithConcurrency(
+      files,
+      this.db._getMaxConcurrency(),
+      (file) => storage.readBlob(file.sha),
+    );
+    return Object.fromEntries(
+      files.map((file, i) => [
+        `${collectionPath}/${file.id}`,
+        { sha: file.sha, content: contents[i].toString("base64") },
+      ]),
+    );
+  }
+
+  /**
+   * Load the state from the store, once
+   * @private
+   */
+  private _load(): Promise<OfflineState> {
+    this.state =
+      this.state ||
+      this.store.load().then((state) => ({
+        writes: (state?.writes || []).map((write) => ({
+          ...write,
+          data: decodeValue(write.data),
+        })),
+        documents: state?.documents || {},
+      }));
+    return this.state;
+  }
+
+  /**
+   * Save the state to the store, after any save still in progress
+   * @private
+   */
+  private async _save(): Promise<void> {
+    const state = await this._load();
+    const encoded: OfflineState = {
+      writes: state.writes.map((write) => ({
+        ...write,
+        data: encodeValue(write.data),
+      })),
+      documents: { ...state.documents },
+    };
+    this.saving = this.saving.then(() => this.store.save(encoded));
+    await this.saving;
+  }
+}
+
+/**
+ * Turn a queued write back into a write
+ * @param doc - The written document
+ * @param write - The queued write
+ * @returns The write
+ */
+function toWrite(doc: Document<any>, write: QueuedWrite): Write {
+  switch (write.type) {
+    case "delete":
+      return { type: "delete", doc };
+    case "update":
+      return { type: "update", doc, data: write.data };
+    case "set":
+      return {
+        type: "set",
+        doc,
+        data: write.data,
+        options: write.options || {},
+      };
+  }
+}
+
+/**
+ * Cache a read document file
+ * @param file - The file, null if it does not exist
+ * @returns The cache entry
+ */
+function cacheEntry(
+  file: { sha: string; content: Buffer } | null,
+): CachedDocument {
+  return file
+    ? { sha: file.sha, content: file.content.toString("base64") }
+    : { sha: null, content: null };
+}
+
+/**
+ * Get the collection path of a document path
+ */
+function parentPath(path: string): string {
+  return path.slice(0, path.lastIndexOf("/"));
+}
+
+/**
+ * Replace FieldValue sentinels with JSON, for persisting queued writes
+ * @param value - The written data
+ * @returns The data with sentinels as {"$fieldValue": kind, operand}
+ */
+function encodeValue(value: any): any {
+  if (value instanceof FieldValue) {
+    return { $fieldValue: value.kind, operand: value.operand };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, encodeValue(item)]),
+    );
+  }
+  // Dates and other instances are left to JSON.stringify, e.g. Date#toJSON
+  return value;
+}
+
+/**
+ * Check whether a value is an object literal rather than a Date, Buffer or class instance
+ */
+function isPlainObject(value: any): boolean {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Turn persisted sentinels back into FieldValues
+ * @param value - The persisted data
+ * @returns The data with FieldValue sentinels
+ */
+function decodeValue(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (typeof value === "object" && value !== null) {
+    if (typeof value.$fieldValue === "string") {
+      return new FieldValue(value.$fieldValue, value.operand);
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, decodeValue(item)]),
+    );
+  }
+  return value;
+}
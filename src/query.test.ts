@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import FireGit, { Collection } from "./database.js";
+import { and, or, Query, where } from "./query.js";
+import { MemoryStorage } from "./storage/index.js";
+
+const users = {
+  alice: {
+    name: "Alice",
+    age: 30,
+    tags: ["admin"],
+    address: { city: "Berlin" },
+  },
+  bob: { name: "Bob", age: 25, tags: ["dev"], address: { city: "Paris" } },
+  carol: { name: "Carol", age: 35, tags: ["dev", "admin"] },
+  dave: { name: "Dave", age: 25, tags: [], address: { city: "Berlin" } },
+  erin: { name: "Erin" },
+};
+
+describe("Query", () => {
+  let collection: Collection;
+
+  const ids = async (query: Query | Collection) =>
+    (await query.get()).docs.map((doc) => doc.id);
+
+  beforeEach(() => {
+    const files = Object.fromEntries(
+      Object.entries(users).map(([id, data]) => [
+        `users/${id}.json`,
+        JSON.stringify(data),
+      ]),
+    );
+    const db = new FireGit(new MemoryStorage({ files }));
+    collection = db.collection("users");
+  });
+
+  it("should be created by the collection's query builders", () => {
+    expect(collection.where("age", ">", 20)).toBeInstanceOf(Query);
+    expect(collection.orderBy("age")).toBeInstanceOf(Query);
+    expect(collection.limit(1)).toBeInstanceOf(Query);
+  });
+
+  it("should filter with each comparison operator", async () => {
+    expect(await ids(collection.where("age", "==", 25))).toEqual([
+      "bob",
+      "dave",
+    ]);
+    expect(await ids(collection.where("age", "!=", 25))).toEqual([
+      "alice",
+      "carol",
+    ]);
+    expect(await ids(collection.where("age", "<", 30))).toEqual([
+      "bob",
+      "dave",
+    ]);
+    expect(await ids(collection.where("age", "<=", 30))).toEqual([
+      "alice",
+      "bob",
+      "dave",
+    ]);
+    expect(await ids(collection.where("age", ">", 30))).toEqual(["carol"]);
+    expect(await ids(collection.where("age", ">=", 30))).toEqual([
+      "alice",
+      "carol",
+    ]);
+    expect(await ids(collection.where("name", "in", ["Bob", "Erin"]))).toEqual([
+      "bob",
+      "erin",
+    ]);
+    expect(await ids(collection.where("age", "not-in", [25, 30]))).toEqual([
+      "carol",
+    ]);
+    expect(
+      await ids(collection.where("tags", "array-contains", "admin")),
+    ).toEqual(["alice", "carol"]);
+  });
+
+  it("should filter on nested fields", async () => {
+    expect(await ids(collection.where("address.city", "==", "Berlin"))).toEqual(
+      ["alice", "dave"],
+    );
+  });
+
+  it("should combine chained and compound filters", async () => {
+    expect(
+      await ids(
+        collection.where("age", "==", 25).where("address.city", "==", "Berlin"),
+      ),
+    ).toEqual(["dave"]);
+    expect(
+      await ids(
+        collection.where(
+          or(
+            where("age", ">", 30),
+            and(where("age", "==", 25), where("name", "==", "Bob")),
+          ),
+        ),
+      ),
+    ).toEqual(["bob", "carol"]);
+  });
+
+  it("should sort and exclude documents without the field", async () => {
+    expect(await ids(collection.orderBy("age"))).toEqual([
+      "bob",
+      "dave",
+      "alice",
+      "carol",
+    ]);
+    expect(
+      await ids(collection.orderBy("age", "desc").orderBy("name")),
+    ).toEqual(["carol", "alice", "bob", "dave"]);
+  });
+
+  it("should limit from the start or the end", async () => {
+    expect(await ids(collection.orderBy("age").limit(2))).toEqual([
+      "bob",
+      "dave",
+    ]);
+    expect(await ids(collection.orderBy("age").limitToLast(2))).toEqual([
+      "alice",
+      "carol",
+    ]);
+    await expect(collection.limitToLast(1).get()).rejects.toThrow(
+      "limitToLast() requires at least one orderBy() clause",
+    );
+  });
+
+  it("should paginate with cursors", async () => {
+    const byAge = collection.orderBy("age");
+
+    expect(await ids(byAge.startAt(30))).toEqual(["alice", "carol"]);
+    expect(await ids(byAge.startAfter(25))).toEqual(["alice", "carol"]);
+    expect(await ids(byAge.endAt(30))).toEqual(["bob", "dave", "alice"]);
+    expect(await ids(byAge.endBefore(30))).toEqual(["bob", "dave"]);
+
+    // A document from a previous page continues after that exact document
+    const firstPage = await byAge.limit(1).get();
+    expect(await ids(byAge.startAfter(firstPage.docs[0]).limit(2))).toEqual([
+      "dave",
+      "alice",
+    ]);
+  });
+});
+
+describe("collectionGroup", () => {
+  let storage: MemoryStorage;
+  let db: FireGit;
+
+  beforeEach(() => {
+    storage = new MemoryStorage({
+      files: {
+        "data/users/alice.json": JSON.stringify({ name: "Alice" }),
+        "data/users/alice/posts/1.json": JSON.stringify({ likes: 3 }),
+        "data/users/bob/posts/1.json": JSON.stringify({ likes: 7 }),
+        "data/users/bob/posts/_indexes/likes.json": JSON.stringify({}),
+        "data/posts/2.json": JSON.stringify({ likes: 5 }),
+        "data/teams/a/members/posts.json": JSON.stringify({ likes: 9 }),
+        "posts/3.json": JSON.stringify({ likes: 1 }),
+      },
+    });
+    db = new FireGit(storage, { basePath: "data" });
+  });
+
+  it("should return the documents of every collection with the ID below basePath", async () => {
+    const { docs, refs } = await db.collectionGroup("posts").get();
+
+    expect(docs).toEqual([
+      { id: "1", likes: 3 },
+      { id: "1", likes: 7 },
+      { id: "2", likes: 5 },
+    ]);
+    expect(refs!.map((ref) => ref.path)).toEqual([
+      "users/alice/posts/1",
+      "users/bob/posts/1",
+      "posts/2",
+    ]);
+  });
+
+  it("should filter, sort and limit like a collection query", async () => {
+    const { docs, refs } = await db
+      .collectionGroup("posts")
+      .where("likes", ">", 3)
+      .orderBy("likes", "desc")
+      .limit(1)
+      .get();
+
+    expect(docs).toEqual([{ id: "1", likes: 7 }]);
+    expect(await refs![0].get()).toEqual({ id: "1", likes: 7 });
+    expect(() => db.collectionGroup("users/posts")).toThrow(
+      "Collection group IDs cannot contain '/'",
+    );
+  });
+
+  it("should return a stored path field unchanged", async () => {
+    await db.doc("posts/4").set({ path: "users/alice/posts/1", likes: 2 });
+
+    const { docs, refs } = await db
+      .collectionGroup("posts")
+      .where("path", "==", "users/alice/posts/1")
+      .get();
+
+    expect(docs).toEqual([{ id: "4", path: "users/alice/posts/1", likes: 2 }]);
+    expect(refs!.map((ref) => ref.path)).toEqual(["posts/4"]);
+  });
+});
@@ -0,0 +1,546 @@
+import type {
+  CollectionData,
+  Document,
+  DocumentConverter,
+  DocumentData,
+} from "./database.js";
+import type {
+  QuerySnapshot,
+  SnapshotOptions,
+  Unsubscribe,
+} from "./snapshot.js";
+import { InvalidArgumentError } from "./errors.js";
+
+/**
+ * Comparison operators for where()
+ */
+export type WhereFilterOp =
+  "==" | "!=" | "<" | "<=" | ">" | ">=" | "in" | "not-in" | "array-contains";
+
+/**
+ * Sort direction for orderBy()
+ */
+export type OrderByDirection = "asc" | "desc";
+
+/**
+ * A condition on a single field - nested fields use dot notation ("address.city")
+ */
+export interface FieldFilter {
+  type: "field";
+  field: string;
+  op: WhereFilterOp;
+  value: any;
+}
+
+/**
+ * Several filters that must all (and) or at least one (or) match
+ */
+export interface CompositeFilter {
+  type: "and" | "or";
+  filters: Filter[];
+}
+
+/**
+ * A filter for where()
+ */
+export type Filter = FieldFilter | CompositeFilter;
+
+/**
+ * A sort order for orderBy()
+ */
+interface OrderBy {
+  field: string;
+  direction: OrderByDirection;
+}
+
+/**
+ * A start or end cursor
+ */
+interface Cursor {
+  values: any[];
+  inclusive: boolean;
+}
+
+/**
+ * Constraints collected by the query builders
+ */
+interface QueryState {
+  filters: Filter[];
+  orderBy: OrderBy[];
+  limit?: number;
+  limitToLast?: boolean;
+  startAt?: Cursor;
+  endAt?: Cursor;
+}
+
+/**
+ * Create a field filter
+ * @param field - The field path
+ * @param op - The comparison operator
+ * @param value - The value to compare against
+ * @returns A filter for where(), and() or or()
+ */
+export function where(
+  field: string,
+  op: WhereFilterOp,
+  value: any,
+): FieldFilter {
+  return { type: "field", field, op, value };
+}
+
+/**
+ * Create a filter that matches when all given filters match
+ * @param filters - The filters
+ * @returns A composite filter
+ */
+export function and(...filters: Filter[]): CompositeFilter {
+  return { type: "and", filters };
+}
+
+/**
+ * Create a filter that matches when at least one of the given filters matches
+ * @param filters - The filters
+ * @returns A composite filter
+ */
+export function or(...filters: Filter[]): CompositeFilter {
+  return { type: "or", filters };
+}
+
+/**
+ * What a query reads its documents from - a collection or a collection group
+ */
+export interface QuerySource<T> {
+  withConverter<U>(converter: DocumentConverter<U>): QuerySource<U>;
+  _getCandidates(filters: Filter[]): Promise<DocumentData[]>;
+  _fromJSON(data: DocumentData): T;
+  _getRef(data: DocumentData): Document<T>;
+  _watch(
+    select: (docs: DocumentData[]) => DocumentData[],
+    callback: (snapshot: QuerySnapshot<T>) => void,
+    options: SnapshotOptions,
+  ): Unsubscribe;
+}
+
+/**
+ * Query class for Firestore-like filtering, sorting and pagination of a collection
+ */
+export class Query<T = DocumentData> {
+  protected source: QuerySource<T>;
+  private state: QueryState;
+
+  constructor(
+    source: QuerySource<T>,
+    state: QueryState = { filters: [], orderBy: [] },
+  ) {
+    this.source = source;
+    this.state = state;
+  }
+
+  /**
+   * Filter the documents
+   * @param fieldOrFilter - A field path, or a filter created with where(), and() or or()
+   * @param op - The comparison operator, when a field path is given
+   * @param value - The value to compare against, when a field path is given
+   * @returns A new Query
+   */
+  where(
+    fieldOrFilter: string | Filter,
+    op?: WhereFilterOp,
+    value?: any,
+  ): Query<T> {
+    const filter =
+      typeof fieldOrFilter === "string"
+        ? where(fieldOrFilter, op as WhereFilterOp, value)
+        : fieldOrFilter;
+    return this._with({ filters: [...this.state.filters, filter] });
+  }
+
+  /**
+   * Sort the documents by a field. Documents without the field are excluded.
+   * @param field - The field path
+   * @param direction - "asc" (default) or "desc"
+   * @returns A new Query
+   */
+  orderBy(field: string, direction: OrderByDirection = "asc"): Query<T> {
+    return this._with({
+      orderBy: [...this.state.orderBy, { field, direction }],
+    });
+  }
+
+  /**
+   * Only return the first documents
+   * @param limit - The maximum number of documents
+   * @returns A new Query
+   */
+  limit(limit: number): Query<T> {
+    return this._with({ limit, limitToLast: false });
+  }
+
+  /**
+   * Only return the last documents - requires orderBy()
+   * @param limit - The maximum number of documents
+   * @returns A new Query
+   */
+  limitToLast(limit: number): Query<T> {
+    return this._with({ limit, limitToLast: true });
+  }
+
+  /**
+   * Start at the given orderBy values (inclusive)
+   * @param values - Values for the orderBy fields, or a document
+   * @returns A new Query
+   */
+  startAt(...values: any[]): Query<T> {
+    return this._with({ startAt: { values, inclusive: true } });
+  }
+
+  /**
+   * Start after the given orderBy values (exclusive)
+   * @param values - Values for the orderBy fields, or a document
+   * @returns A new Query
+   */
+  startAfter(...values: any[]): Query<T> {
+    return this._with({ startAt: { values, inclusive: false } });
+  }
+
+  /**
+   * End at the given orderBy values (inclusive)
+   * @param values - Values for the orderBy fields, or a document
+   * @returns A new Query
+   */
+  endAt(...values: any[]): Query<T> {
+    return this._with({ endAt: { values, inclusive: true } });
+  }
+
+  /**
+   * End before the given orderBy values (exclusive)
+   * @param values - Values for the orderBy fields, or a document
+   * @returns A new Query
+   */
+  endBefore(...values: any[]): Query<T> {
+    return this._with({ endAt: { values, inclusive: false } });
+  }
+
+  /**
+   * Get the documents matching the query
+   * @returns Collection result with flattened documents
+   */
+  async get(): Promise<CollectionData<T>> {
+    const { orderBy, limitToLast } = this.state;
+    if (limitToLast && orderBy.length === 0) {
+      throw new InvalidArgumentError(
+        "Failed to run query: limitToLast() requires at least one orderBy() clause",
+      );
+    }
+
+    // Filters apply to the stored data, the converter only to the results
+    const docs = this._apply(
+      await this.source._getCandidates(this.state.filters),
+    );
+    return {
+      docs: docs.map((data) => this.source._fromJSON(data)),
+      refs: docs.map((data) => this.source._getRef(data)),
+    };
+  }
+
+  /**
+   * Get the same query with documents converted to and from U
+   * @param converter - Converts between U and the stored JSON
+   * @returns A typed Query
+   */
+  withConverter<U>(converter: DocumentConverter<U>): Query<U> {
+    return new Query<U>(this.source.withConverter(converter), this.state);
+  }
+
+  /**
+   * Listen to the documents matching the query by polling the branch head.
+   * The callback runs with the matching documents first, then whenever the results change.
+   * @param callback - Receives the documents and the added, modified and removed ones
+   * @param options - The polling interval and error handler
+   * @returns A function that stops listening
+   */
+  onSnapshot(
+    callback: (snapshot: QuerySnapshot<T>) => void,
+    options: SnapshotOptions = {},
+  ): Unsubscribe {
+    const { orderBy, limitToLast } = this.state;
+    if (limitToLast && orderBy.length === 0) {
+      throw new InvalidArgumentError(
+        "Failed to listen to query: limitToLast() requires at least one orderBy() clause",
+      );
+    }
+    return this.source._watch((docs) => this._apply(docs), callback, options);
+  }
+
+  /**
+   * Filter, sort and paginate documents according to the query
+   * @param docs - The documents of the collection
+   * @returns The matching documents
+   */
+  _apply(docs: DocumentData[]): DocumentData[] {
+    const { filters, orderBy, limit, limitToLast, startAt, endAt } = this.state;
+
+    let results = docs.filter(
+      (doc) =>
+        filters.every((filter) => matches(doc, filter)) &&
+        orderBy.every(({ field }) => getField(doc, field) !== undefined),
+    );
+
+    // The document ID breaks ties, like Firestore's implicit __name__ order
+    results.sort((a, b) => this._compareDocs(a, b));
+
+    if (startAt) {
+      results = results.filter((doc) => {
+        const position = this._compareToCursor(doc, startAt);
+        return startAt.inclusive ? position >= 0 : position > 0;
+      });
+    }
+    if (endAt) {
+      results = results.filter((doc) => {
+        const position = this._compareToCursor(doc, endAt);
+        return endAt.inclusive ? position <= 0 : position < 0;
+      });
+    }
+
+    if (limit !== undefined) {
+      results = limitToLast
+        ? results.slice(Math.max(results.length - limit, 0))
+        : results.slice(0, limit);
+    }
+
+    return results;
+  }
+
+  /**
+   * Compare two documents by the orderBy fields, then by ID
+   * @private
+   */
+  private _compareDocs(a: DocumentData, b: DocumentData): number {
+    for (const { field, direction } of this.state.orderBy) {
+      const result = compareValues(getField(a, field), getField(b, field));
+      if (result !== 0) {
+        return direction === "desc" ? -result : result;
+      }
+    }
+    return compareValues(a.id, b.id);
+  }
+
+  /**
+   * Compare a document to a cursor position
+   * @returns Negative if the document comes before the cursor, 0 at it, positive after it
+   * @private
+   */
+  private _compareToCursor(doc: DocumentData, cursor: Cursor): number {
+    const [first] = cursor.values;
+
+    // A document returned by get() as cursor: use its orderBy values and ID
+    if (cursor.values.length === 1 && isDocumentData(first)) {
+      return this._compareDocs(doc, first);
+    }
+
+    // Cursor values follow the orderBy fields, then the implicit ID order
+    const fields: OrderBy[] = [
+      ...this.state.orderBy,
+      { field: "id", direction: "asc" },
+    ];
+    for (let i = 0; i < cursor.values.length && i < fields.length; i++) {
+      const { field, direction } = fields[i];
+      const result = compareValues(getField(doc, field), cursor.values[i]);
+      if (result !== 0) {
+        return direction === "desc" ? -result : result;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Create a copy of this query with some constraints replaced
+   * @private
+   */
+  private _with(patch: Partial<QueryState>): Query<T> {
+    return new Query<T>(this.source, { ...this.state, ...patch });
+  }
+}
+
+/**
+ * Read a possibly nested field using dot notation
+ * @param data - The document data
+ * @param field - The field path
+ * @returns The value, or undefined if the field does not exist
+ */
+export function getField(data: any, field: string): any {
+  return field.split(".").reduce((value, key) => {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    return value[key];
+  }, data);
+}
+
+/**
+ * Check whether a document matches a filter
+ * @param doc - The document data
+ * @param filter - The filter
+ * @returns True if it matches
+ */
+function matches(doc: DocumentData, filter: Filter): boolean {
+  if (filter.type !== "field") {
+    return filter.type === "and"
+      ? filter.filters.every((child) => matches(doc, child))
+      : filter.filters.some((child) => matches(doc, child));
+  }
+
+  return matchesValue(getField(doc, filter.field), filter.op, filter.value);
+}
+
+/**
+ * Check whether a field value satisfies a comparison
+ * @param value - The field value, undefined if the field is missing
+ * @param op - The comparison operator
+ * @param filterValue - The value to compare against
+ * @returns True if it matches
+ */
+export function matchesValue(
+  value: any,
+  op: WhereFilterOp,
+  filterValue: any,
+): boolean {
+  // Missing fields never match, like in Firestore
+  if (value === undefined) {
+    return false;
+  }
+
+  switch (op) {
+    case "==":
+      return isEqual(value, filterValue);
+    case "!=":
+      return !isEqual(value, filterValue);
+    case "<":
+      return (
+        comparable(value, filterValue) && compareValues(value, filterValue) < 0
+      );
+    case "<=":
+      return (
+        comparable(value, filterValue) && compareValues(value, filterValue) <= 0
+      );
+    case ">":
+      return (
+        comparable(value, filterValue) && compareValues(value, filterValue) > 0
+      );
+    case ">=":
+      return (
+        comparable(value, filterValue) && compareValues(value, filterValue) >= 0
+      );
+    case "in":
+      return asArray(op, filterValue).some((item) => isEqual(value, item));
+    case "not-in":
+      return (
+        value !== null &&
+        !asArray(op, filterValue).some((item) => isEqual(value, item))
+      );
+    case "array-contains":
+      return (
+        Array.isArray(value) && value.some((item) => isEqual(item, filterValue))
+      );
+    default:
+      throw new InvalidArgumentError(`Invalid query operator: ${op}`);
+  }
+}
+
+/**
+ * Get the array value of an in / not-in filter
+ */
+function asArray(op: WhereFilterOp, filterValue: any): any[] {
+  if (!Array.isArray(filterValue)) {
+    throw new InvalidArgumentError(
+      `Invalid query: '${op}' requires an array value`,
+    );
+  }
+  return filterValue;
+}
+
+/**
+ * Rank of a value's type in the sort order: null, booleans, numbers, strings, arrays, maps
+ */
+function typeRank(value: any): number {
+  if (value === null || value === undefined) {
+    return 0;
+  }
+  if (Array.isArray(value)) {
+    return 4;
+  }
+  const ranks: Record<string, number> = { boolean: 1, number: 2, string: 3 };
+  return ranks[typeof value] ?? 5;
+}
+
+/**
+ * Range filters only match values of the same type, like in Firestore
+ */
+function comparable(a: any, b: any): boolean {
+  return typeRank(a) === typeRank(b);
+}
+
+/**
+ * Compare two JSON values
+ * @param a - The first value
+ * @param b - The second value
+ * @returns Negative if a sorts before b, positive if after, 0 if equal
+ */
+export function compareValues(a: any, b: any): number {
+  const rankDiff = typeRank(a) - typeRank(b);
+  if (rankDiff !== 0) {
+    return rankDiff;
+  }
+
+  if (
+    typeof a === "string" ||
+    typeof a === "number" ||
+    typeof a === "boolean"
+  ) {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (Array.isArray(a)) {
+    for (let i = 0; i < a.length && i < b.length; i++) {
+      const result = compareValues(a[i], b[i]);
+      if (result !== 0) {
+        return result;
+      }
+    }
+    return a.length - b.length;
+  }
+  if (a && typeof a === "object") {
+    const aKeys = Object.keys(a).sort();
+    const bKeys = Object.keys(b).sort();
+    for (let i = 0; i < aKeys.length && i < bKeys.length; i++) {
+      const keyResult = compareValues(aKeys[i], bKeys[i]);
+      if (keyResult !== 0) {
+        return keyResult;
+      }
+      const valueResult = compareValues(a[aKeys[i]], b[bKeys[i]]);
+      if (valueResult !== 0) {
+        return valueResult;
+      }
+    }
+    return aKeys.length - bKeys.length;
+  }
+  return 0;
+}
+
+/**
+ * Deep equality of two JSON values
+ */
+function isEqual(a: any, b: any): boolean {
+  return typeRank(a) === typeRank(b) && compareValues(a, b) === 0;
+}
+
+/**
+ * Check whether a cursor value is a document returned by get()
+ */
+function isDocumentData(value: any): value is DocumentData {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    typeof value.id === "string"
+  );
+}
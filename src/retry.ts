@@ -0,0 +1,49 @@
+/**
+ * Options for retrying failed requests and writes
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt (default 3, 0 to disable) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled for each further retry (default 1000) */
+  minDelay?: number;
+  /** Longest delay in milliseconds - rate limits that reset later are not waited for (default 60000) */
+  maxDelay?: number;
+}
+
+/**
+ * Compute the exponential backoff delay before a retry
+ * @param attempt - The number of the failed attempt, starting at 0
+ * @param options - The retry options
+ * @returns The delay in milliseconds
+ */
+export function backoff(attempt: number, options: RetryOptions = {}): number {
+  const { minDelay = 1000, maxDelay = 60000 } = options;
+  return Math.min(minDelay * 2 ** attempt, maxDelay);
+}
+
+/**
+ * Call fn until it succeeds, waiting between attempts
+ * @param fn - The operation, called again from scratch for each attempt
+ * @param retryDelay - The delay before retrying after an error, or null to fail with it
+ * @param options - The retry options
+ * @returns The result of the first successful attempt
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  retryDelay: (error: any, attempt: number) => number | null,
+  options: RetryOptions = {},
+): Promise<T> {
+  const retries = options.retries ?? 3;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      const delay = attempt < retries ? retryDelay(error, attempt) : null;
+      if (delay === null) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
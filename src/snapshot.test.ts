@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import FireGit from "./database.js";
+import { QuerySnapshot } from "./snapshot.js";
+import { MemoryStorage } from "./storage/index.js";
+
+describe("onSnapshot", () => {
+  let storage: MemoryStorage;
+  let db: FireGit;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = new MemoryStorage({
+      files: {
+        "users/alice.json": JSON.stringify({ name: "Alice", age: 30 }),
+        "users/bob.json": JSON.stringify({ name: "Bob", age: 25 }),
+      },
+    });
+    db = new FireGit(storage);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should call document listeners initially and on changes only", async () => {
+    const callback = vi.fn();
+    const unsubscribe = db
+      .doc("users/alice")
+      .onSnapshot(callback, { interval: 1000 });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenLastCalledWith({
+      id: "alice",
+      name: "Alice",
+      age: 30,
+    });
+
+    // Another document changed - the branch moved but alice did not
+    await db.doc("users/bob").update({ age: 26 });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    await db.doc("users/alice").delete();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback).toHaveBeenLastCalledWith({ id: "alice" });
+
+    unsubscribe();
+    await db.doc("users/alice").set({ name: "Alice" });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it("should report added, modified and removed documents of a collection", async () => {
+    const snapshots: QuerySnapshot[] = [];
+    const unsubscribe = db
+      .collection("users")
+      .onSnapshot((snapshot) => snapshots.push(snapshot), { interval: 1000 });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(snapshots[0].changes.map((change) => change.type)).toEqual([
+      "added",
+      "added",
+    ]);
+
+    const readSpy = vi.spyOn(storage, "readBlob");
+    await db
+      .batch()
+      .update(db.doc("users/alice"), { age: 31 })
+      .delete(db.doc("users/bob"))
+      .set(db.doc("users/carol"), { name: "Carol", age: 35 })
+      .commit();
+    await vi.advanceTimersByTimeAsync(1000);
+    unsubscribe();
+
+    expect(snapshots).toHaveLength(2);
+    expect(snapshots[1].docs.map((doc) => doc.id)).toEqual(["alice", "carol"]);
+    expect(snapshots[1].changes).toEqual([
+      { type: "removed", doc: { id: "bob", name: "Bob", age: 25 } },
+      { type: "modified", doc: { id: "alice", name: "Alice", age: 31 } },
+      { type: "added", doc: { id: "carol", name: "Carol", age: 35 } },
+    ]);
+    // Only the changed documents are fetched again
+    expect(readSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only call query listeners when the results change", async () => {
+    const snapshots: QuerySnapshot[] = [];
+    const unsubscribe = db
+      .collection("users")
+      .where("age", ">=", 30)
+      .onSnapshot((snapshot) => snapshots.push(snapshot), { interval: 1000 });
+    await vi.advanceTimersByTimeAsync(0);
+
+    await db.doc("users/bob").update({ name: "Robert" });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(snapshots).toHaveLength(1);
+
+    await db.doc("users/bob").update({ age: 40 });
+    await vi.advanceTimersByTimeAsync(1000);
+    unsubscribe();
+
+    expect(snapshots).toHaveLength(2);
+    expect(snapshots[1].changes).toEqual([
+      { type: "added", doc: { id: "bob", name: "Robert", age: 40 } },
+    ]);
+  });
+
+  it("should pass errors to onError and keep polling", async () => {
+    const onError = vi.fn();
+    const callback = vi.fn();
+    vi.spyOn(storage, "getHead").mockRejectedValueOnce(new Error("Offline"));
+
+    const unsubscribe = db
+      .doc("users/alice")
+      .onSnapshot(callback, { interval: 1000, onError });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "Failed to watch document: Offline",
+        code: "unknown",
+      }),
+    );
+    expect(callback).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    unsubscribe();
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
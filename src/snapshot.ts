@@ -0,0 +1,265 @@
+import type {
+  Collection,
+  CollectionData,
+  Document,
+  DocumentData,
+  FireGit,
+} from "./database.js";
+import type { CommitInfo } from "./storage/index.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { FireGitError, wrapError } from "./errors.js";
+import { getField } from "./query.js";
+import { documentId } from "./codec.js";
+
+/**
+ * Options for onSnapshot listeners
+ */
+export interface SnapshotOptions {
+  /** Milliseconds between polls of the branch head (default 5000) */
+  interval?: number;
+  /** Called when polling or reading fails - polling continues afterwards */
+  onError?: (error: FireGitError) => void;
+}
+
+/**
+ * A document that was added to, modified in or removed from a result
+ */
+export interface DocumentChange<T = DocumentData> {
+  type: "added" | "modified" | "removed";
+  doc: T;
+}
+
+/**
+ * Collection or query results passed to onSnapshot listeners
+ */
+export interface QuerySnapshot<T = DocumentData> extends CollectionData<T> {
+  /** The changes since the previous snapshot - all documents are added in the first one */
+  changes: DocumentChange<T>[];
+}
+
+/**
+ * Stops a listener
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * DocumentSnapshot - A document as read at a commit, with the metadata of its file
+ */
+export class DocumentSnapshot<T = DocumentData> {
+  /** @private */
+  constructor(
+    /** The document that was read */
+    readonly ref: Document<T>,
+    private readonly json: DocumentData | null,
+    /** The blob SHA of the document file - pass it as ifMatch to set() */
+    readonly sha: string | null,
+    /** The size of the document file in bytes, 0 if it does not exist */
+    readonly size: number,
+    /** The last commit that changed the document, at or before the commit read */
+    readonly lastCommit: CommitInfo | null,
+  ) {}
+
+  /** The document ID */
+  get id(): string {
+    return this.ref.id;
+  }
+
+  /** The document path */
+  get path(): string {
+    return this.ref.path;
+  }
+
+  /** Whether the document exists */
+  get exists(): boolean {
+    return this.json !== null;
+  }
+
+  /**
+   * Get the document data, converted with the document's converter
+   * @returns The data in a flat structure, undefined if the document does not exist
+   */
+  data(): T | undefined {
+    return this.json ? this.ref._fromJSON(this.json) : undefined;
+  }
+
+  /**
+   * Get a field of the stored data
+   * @param field - The field path, like "profile.address.city"
+   * @returns The value, undefined if the field or the document does not exist
+   */
+  get(field: string): any {
+    return getField(this.json, field);
+  }
+}
+
+/**
+ * Poll the branch head and call onChange whenever it moved
+ * @param db - The database
+ * @param onChange - Reads the state at the new head, retried on the next poll if it fails
+ * @param options - The polling interval and error handler
+ * @param description - What is watched, for error messages
+ * @returns A function that stops polling
+ */
+function watchHead(
+  db: FireGit,
+  onChange: (head: string | null) => Promise<void>,
+  options: SnapshotOptions,
+  description: string,
+): Unsubscribe {
+  const interval = options.interval ?? 5000;
+  let lastHead: string | null | undefined;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const poll = async () => {
+    try {
+      // GitHubStorage answers unchanged heads from a conditional request
+      const head = await db._getStorage().getHead();
+      if (head !== lastHead && !stopped) {
+        await onChange(head);
+        lastHead = head;
+      }
+    } catch (error: any) {
+      if (!stopped) {
+        options.onError?.(wrapError(error, `watch ${description}`));
+      }
+    }
+    if (!stopped) {
+      timer = setTimeout(poll, interval);
+    }
+  };
+
+  poll();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+/**
+ * Listen to a document, called with its data initially and whenever it changes
+ * @param db - The database
+ * @param doc - The document
+ * @param callback - Receives the document data, just the id if it does not exist
+ * @param options - The polling interval and error handler
+ * @returns A function that stops listening
+ */
+export function watchDocument<T>(
+  db: FireGit,
+  doc: Document<T>,
+  callback: (data: T) => void,
+  options: SnapshotOptions,
+): Unsubscribe {
+  const fullPath = db._getFilePath(doc.path);
+  let lastSha: string | null | undefined;
+
+  return watchHead(
+    db,
+    async (head) => {
+      const file = head
+        ? await db._getStorage().readFile(fullPath, head)
+        : null;
+      const sha = file ? file.sha : null;
+      if (sha === lastSha) {
+        return;
+      }
+      lastSha = sha;
+      callback(
+        doc._fromJSON(file ? doc._fromContent(file.content) : { id: doc.id }),
+      );
+    },
+    options,
+    "document",
+  );
+}
+
+/**
+ * Listen to the documents of a collection, optionally narrowed down by a query
+ * @param db - The database
+ * @param collection - The collection
+ * @param select - Filters, sorts and limits the collection's documents
+ * @param callback - Receives the results and what changed
+ * @param options - The polling interval and error handler
+ * @returns A function that stops listening
+ */
+export function watchCollection<T>(
+  db: FireGit,
+  collection: Collection<T>,
+  select: (docs: DocumentData[]) => DocumentData[],
+  callback: (snapshot: QuerySnapshot<T>) => void,
+  options: SnapshotOptions,
+): Unsubscribe {
+  const fullPath = db._getFullPath(collection.path);
+  const codec = db._getCodec(collection.path);
+  // Blob SHA and data per document ID, to only fetch changed documents
+  let known = new Map<string, { sha: string; doc: DocumentData }>();
+  let lastResults: Map<string, string> | undefined;
+
+  return watchHead(
+    db,
+    async (head) => {
+      const entries = head
+        ? await db._getStorage().listDirectory(fullPath, head)
+        : null;
+      const files = (entries || []).flatMap((entry) => {
+        const id = documentId(entry.name, codec);
+        return entry.type === "file" && id !== null ? [{ ...entry, id }] : [];
+      });
+
+      const current = new Map<string, { sha: string; doc: DocumentData }>();
+      await mapWithConcurrency(
+        files,
+        db._getMaxConcurrency(),
+        async (entry) => {
+          const id = entry.id;
+          const previous = known.get(id);
+          const doc =
+            previous?.sha === entry.sha
+              ? previous.doc
+              : collection
+                  .doc(id)
+                  ._fromContent(await db._getStorage().readBlob(entry.sha));
+          current.set(id, { sha: entry.sha, doc });
+        },
+      );
+
+      const docs = select(files.map((entry) => current.get(entry.id)!.doc));
+      const results = new Map(
+        docs.map((doc) => [doc.id, current.get(doc.id)!.sha]),
+      );
+
+      const changes: DocumentChange<DocumentData>[] = [];
+      for (const id of lastResults?.keys() || []) {
+        if (!results.has(id)) {
+          changes.push({ type: "removed", doc: known.get(id)?.doc || { id } });
+        }
+      }
+      for (const doc of docs) {
+        const previousSha = lastResults?.get(doc.id);
+        if (previousSha === undefined) {
+          changes.push({ type: "added", doc });
+        } else if (previousSha !== results.get(doc.id)) {
+          changes.push({ type: "modified", doc });
+        }
+      }
+
+      const first = lastResults === undefined;
+      known = current;
+      lastResults = results;
+      if (first || changes.length > 0) {
+        // Selection works on the stored data, the converter only applies to the results
+        const convert = (data: DocumentData) => collection._fromJSON(data);
+        callback({
+          docs: docs.map(convert),
+          changes: changes.map(({ type, doc }) => ({
+            type,
+            doc: convert(doc),
+          })),
+        });
+      }
+    },
+    options,
+    "collection",
+  );
+}
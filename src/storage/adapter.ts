@@ -0,0 +1,224 @@
+import { createHash } from "node:crypto";
+import { ConflictError } from "../errors.js";
+
+/**
+ * A file read from storage
+ */
+export interface StoredFile {
+  path: string;
+  sha: string;
+  content: Buffer;
+}
+
+/**
+ * An entry in a directory listing
+ */
+export interface StorageEntry {
+  name: string;
+  path: string;
+  type: "file" | "dir";
+  sha: string;
+}
+
+/**
+ * A change to a single file in a commit - null content deletes the file
+ */
+export interface FileChange {
+  path: string;
+  content: Buffer | null;
+}
+
+/**
+ * A commit on the adapter's branch
+ */
+export interface CommitInfo {
+  sha: string;
+  message: string;
+  author: { name: string; email: string };
+  date: Date;
+}
+
+/**
+ * A pull request opened for a branch
+ */
+export interface PullRequestInfo {
+  number: number;
+  /** The page of the pull request */
+  url: string;
+}
+
+/**
+ * StorageAdapter - The Git operations FireGit needs from a storage backend.
+ *
+ * Reads default to the adapter's branch; `ref` may be a branch name or a commit SHA.
+ * Writes reject with an error whose `status` is 409 when the branch or file
+ * changed since the given SHA was read.
+ */
+export interface StorageAdapter {
+  /** The branch writes go to */
+  readonly branch: string;
+
+  /**
+   * Resolve the commit the branch points to
+   * @returns The commit SHA, or null if the branch has no commits yet
+   */
+  getHead(): Promise<string | null>;
+
+  /**
+   * Read a file
+   * @param path - The file path
+   * @param ref - The branch or commit to read at
+   * @returns The file, or null if it does not exist
+   */
+  readFile(path: string, ref?: string): Promise<StoredFile | null>;
+
+  /**
+   * Read a blob by its SHA, as returned in directory listings
+   * @param sha - The blob SHA
+   * @returns The blob content
+   */
+  readBlob(sha: string): Promise<Buffer>;
+
+  /**
+   * List the direct children of a directory
+   * @param path - The directory path ("" for the root)
+   * @param ref - The branch or commit to read at
+   * @returns The entries, or null if the directory does not exist
+   */
+  listDirectory(path: string, ref?: string): Promise<StorageEntry[] | null>;
+
+  /**
+   * List all files below a directory, at any depth
+   * @param path - The directory path ("" for the root)
+   * @param ref - The branch or commit to read at
+   * @returns The file entries, or null if the directory does not exist
+   */
+  listTree(path: string, ref?: string): Promise<StorageEntry[] | null>;
+
+  /**
+   * List the commits on the branch that changed a file, newest first
+   * @param path - The file path
+   * @param options - limit: the maximum number of commits to return, ref: the commit to start from
+   * @returns The commits
+   */
+  history(
+    path: string,
+    options?: { limit?: number; ref?: string },
+  ): Promise<CommitInfo[]>;
+
+  /**
+   * Find the commit the branch pointed to at a point in time
+   * @param date - The point in time
+   * @returns The latest commit made at or before date, or null if there is none
+   */
+  getCommitAt(date: Date): Promise<string | null>;
+
+  /**
+   * Create or replace a single file in its own commit
+   * @param path - The file path
+   * @param content - The new content
+   * @param message - The commit message
+   * @param sha - The blob SHA being replaced, omitted when creating
+   * @returns The new blob SHA
+   */
+  writeFile(
+    path: string,
+    content: Buffer,
+    message: string,
+    sha?: string,
+  ): Promise<string>;
+
+  /**
+   * Delete a single file in its own commit
+   * @param path - The file path
+   * @param message - The commit message
+   * @param sha - The blob SHA being deleted
+   */
+  deleteFile(path: string, message: string, sha: string): Promise<void>;
+
+  /**
+   * Apply several file changes as one commit on top of parent and move the branch to it
+   * @param changes - The file changes
+   * @param message - The commit message
+   * @param parent - The commit the branch must still point to, null for the first commit
+   * @returns The new commit SHA
+   */
+  commit(
+    changes: FileChange[],
+    message: string,
+    parent: string | null,
+  ): Promise<string>;
+
+  /**
+   * Create a branch pointing to a commit
+   * @param name - The branch name
+   * @param sha - The commit SHA
+   * @throws FireGitError with code already-exists if the branch exists
+   */
+  createBranch(name: string, sha: string): Promise<void>;
+
+  /**
+   * Move an existing branch forward to a commit that contains its head
+   * @param name - The branch name
+   * @param sha - The commit SHA
+   * @throws FireGitError with code failed-precondition if the branch has commits sha does not contain
+   */
+  fastForward(name: string, sha: string): Promise<void>;
+
+  /**
+   * Get an adapter for another branch of the same repository
+   * @param name - The branch name
+   * @returns The adapter, with the same options as this one
+   */
+  withBranch(name: string): StorageAdapter;
+
+  /**
+   * Open a pull request from the adapter's branch - only for hosted adapters
+   * @param base - The branch to merge into
+   * @param options - The title and description of the pull request
+   * @returns The pull request
+   */
+  openPullRequest?(
+    base: string,
+    options: { title: string; body?: string },
+  ): Promise<PullRequestInfo>;
+
+  /**
+   * Drop all cached file contents - only for adapters that cache
+   */
+  clearCache?(): void;
+}
+
+/**
+ * Check whether a value implements StorageAdapter
+ * @param value - The value to check
+ * @returns True if it looks like a storage adapter
+ */
+export function isStorageAdapter(value: any): value is StorageAdapter {
+  return (
+    typeof value?.getHead === "function" &&
+    typeof value?.readFile === "function" &&
+    typeof value?.commit === "function"
+  );
+}
+
+/**
+ * Create the error adapters reject with when the branch or a file moved
+ * @param message - The error message
+ * @returns A ConflictError with status 409
+ */
+export function conflictError(message: string): ConflictError {
+  return new ConflictError(message);
+}
+
+/**
+ * Compute the Git blob SHA of some content
+ * @param content - The file content
+ * @returns The SHA-1 Git uses for the blob
+ */
+export function blobSha(content: Buffer): string {
+  return createHash("sha1")
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest("hex");
+}
@@ -0,0 +1,667 @@
+import { Octokit } from "@octokit/rest";
+import {
+  CommitInfo,
+  conflictError,
+  FileChange,
+  PullRequestInfo,
+  StorageAdapter,
+  StorageEntry,
+  StoredFile,
+} from "./adapter.js";
+import {
+  FireGitError,
+  InvalidArgumentError,
+  isRateLimited,
+} from "../errors.js";
+import { backoff, RetryOptions, withRetry } from "../retry.js";
+import { CacheOptions, LRUCache } from "../cache.js";
+
+/**
+ * Options for the GitHub storage adapter
+ */
+export interface GitHubStorageOptions {
+  owner: string;
+  repo: string;
+  branch?: string;
+  /** Retries of rate-limited and failed requests */
+  retry?: RetryOptions;
+  /** Called with the remaining API budget after every response */
+  onRateLimit?: (rateLimit: RateLimitInfo) => void;
+  /** Cache file contents and revalidate them with ETags */
+  cache?: CacheOptions;
+}
+
+/**
+ * The API budget GitHub reported in the x-ratelimit-* headers of a response
+ */
+export interface RateLimitInfo {
+  /** The requests allowed per window */
+  limit: number;
+  /** The requests left in the current window */
+  remaining: number;
+  /** When the window resets */
+  reset: Date;
+  /** The budget the request counted against, e.g. "core" */
+  resource: string;
+}
+
+/**
+ * GitHubStorage - Stores data in a GitHub repository through the REST API
+ */
+export class GitHubStorage implements StorageAdapter {
+  readonly branch: string;
+  private octokit: Octokit;
+  private owner: string;
+  private repo: string;
+  private lastHead?: { etag: string; sha: string };
+  private retry: RetryOptions;
+  private onRateLimit?: (rateLimit: RateLimitInfo) => void;
+  // Files keyed by "<ref>:<path>" with their ETag, and blob contents keyed by "blob:<sha>".
+  // Files written through writeFile() are cached under the commit SHA only, without an ETag.
+  private cache?: LRUCache<{ file: StoredFile; etag?: string } | Buffer>;
+
+  constructor(octoKit: Octokit, options: GitHubStorageOptions) {
+    this.octokit = octoKit;
+    this.owner = options.owner;
+    this.repo = options.repo;
+    this.branch = options.branch || "main";
+    this.retry = options.retry || {};
+    this.onRateLimit = options.onRateLimit;
+    if (options.cache) {
+      this.cache = new LRUCache(options.cache);
+    }
+  }
+
+  async getHead(): Promise<string | null> {
+    const params: any = {
+      owner: this.owner,
+      repo: this.repo,
+      ref: `heads/${this.branch}`,
+    };
+    // Conditional requests for an unchanged ref don't count against the rate limit
+    if (this.lastHead) {
+      params.headers = { "if-none-match": this.lastHead.etag };
+    }
+
+    try {
+      const { data, headers } = await this._call(() =>
+        this.octokit.git.getRef(params),
+      );
+      this.lastHead = headers?.etag
+        ? { etag: headers.etag, sha: data.object.sha }
+        : undefined;
+      return data.object.sha;
+    } catch (error: any) {
+      if (error.status === 304 && this.lastHead) {
+        return this.lastHead.sha;
+      }
+      // 409 is returned for a repository without any commits
+      if (error.status === 404 || error.status === 409) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async readFile(path: string, ref?: string): Promise<StoredFile | null> {
+    const key = `${ref || this.branch}:${path}`;
+    const cached = this.cache?.get(key) as
+      { file: StoredFile; etag?: string } | undefined;
+    // A file at a commit SHA never changes, while the branch may have moved
+    // through another client since the file was cached
+    if (cached && ref && /^[0-9a-f]{40}$/.test(ref)) {
+      return cached.file;
+    }
+
+    const params: any = {
+      owner: this.owner,
+      repo: this.repo,
+      path,
+      ref: ref || this.branch,
+    };
+    // Unchanged files are answered with 304, which doesn't count against the rate limit
+    if (cached?.etag) {
+      params.headers = { "if-none-match": cached.etag };
+    }
+
+    try {
+      const { data, headers } = await this._call(() =>
+        this.octokit.repos.getContent(params),
+      );
+      const stored = data as any;
+      // Files over 1 MB come without inline content, so they are read as blobs
+      const content =
+        stored.encoding === "none" || (!stored.content && stored.size > 0)
+          ? await this.readBlob(stored.sha)
+          : Buffer.from(stored.content || "", "base64");
+      const file = { path, sha: stored.sha, content };
+      this.cache?.set(key, { file, etag: headers?.etag });
+      this.cache?.set(`blob:${file.sha}`, file.content);
+      return file;
+    } catch (error: any) {
+      if (error.status === 304 && cached) {
+        return cached.file;
+      }
+      if (error.status === 404) {
+        this.cache?.delete(key);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async readBlob(sha: string): Promise<Buffer> {
+    // Blobs are addressed by their content, so cached ones are always current
+    const cached = this.cache?.get(`blob:${sha}`) as Buffer | undefined;
+    if (cached) {
+      return cached;
+    }
+
+    const { data } = await this._call(() =>
+      this.octokit.git.getBlob({
+        owner: this.owner,
+        repo: this.repo,
+        file_sha: sha,
+      }),
+    );
+    const content = Buffer.from(data.content, "base64");
+    this.cache?.set(`blob:${sha}`, content);
+    return content;
+  }
+
+  async listDirectory(
+    path: string,
+    ref?: string,
+  ): Promise<StorageEntry[] | null> {
+    // The Trees API has no 1,000 entry limit like the Contents API
+    const treeSha = await this._findTree(path, ref);
+    const tree = treeSha ? await this._getTree(treeSha) : null;
+    if (!tree) {
+      return null;
+    }
+
+    return tree.tree
+      .filter((item: any) => item.type === "blob" || item.type === "tree")
+      .map((item: any) => ({
+        name: item.path,
+        path: path ? `${path}/${item.path}` : item.path,
+        type: item.type === "tree" ? "dir" : "file",
+        sha: item.sha,
+      }));
+  }
+
+  async listTree(path: string, ref?: string): Promise<StorageEntry[] | null> {
+    const treeSha = await this._findTree(path, ref);
+    const tree = treeSha ? await this._getTree(treeSha, true) : null;
+    if (!tree) {
+      return null;
+    }
+
+    if (tree.truncated) {
+      // Too many entries for one response - list each subdirectory on its own
+      const files: StorageEntry[] = [];
+      for (const entry of (await this.listDirectory(path, ref))!) {
+        if (entry.type === "file") {
+          files.push(entry);
+        } else {
+          files.push(...((await this.listTree(entry.path, ref)) || []));
+        }
+      }
+      return files;
+    }
+
+    return tree.tree
+      .filter((item: any) => item.type === "blob")
+      .map((item: any) => ({
+        name: item.path.split("/").pop(),
+        path: path ? `${path}/${item.path}` : item.path,
+        type: "file",
+        sha: item.sha,
+      }));
+  }
+
+  async history(
+    path: string,
+    options: { limit?: number; ref?: string } = {},
+  ): Promise<CommitInfo[]> {
+    const { limit } = options;
+    if (limit === 0) {
+      return [];
+    }
+
+    try {
+      let collected = 0;
+      const commits = await this._call(() =>
+        this.octokit.paginate(
+          this.octokit.repos.listCommits,
+          {
+            owner: this.owner,
+            repo: this.repo,
+            sha: options.ref || this.branch,
+            path,
+            per_page: Math.min(limit ?? 100, 100),
+          },
+          (response, done) => {
+            this._reportRateLimit(response.headers);
+            // Stop paging once enough commits were collected
+            collected += response.data.length;
+            if (limit !== undefined && collected >= limit) {
+              done();
+            }
+            return response.data;
+          },
+        ),
+      );
+
+      return commits.slice(0, limit).map((item) => ({
+        sha: item.sha,
+        message: item.commit.message,
+        author: {
+          name: item.commit.author?.name || "",
+          email: item.commit.author?.email || "",
+        },
+        date: new Date(item.commit.author?.date || 0),
+      }));
+    } catch (error: any) {
+      // 409 is returned for a repository without any commits
+      if (error.status === 404 || error.status === 409) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async getCommitAt(date: Date): Promise<string | null> {
+    try {
+      const { data } = await this._call(() =>
+        this.octokit.repos.listCommits({
+          owner: this.owner,
+          repo: this.repo,
+          sha: this.branch,
+          until: date.toISOString(),
+          per_page: 1,
+        }),
+      );
+      return data[0]?.sha ?? null;
+    } catch (error: any) {
+      if (error.status === 404 || error.status === 409) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async writeFile(
+    path: string,
+    content: Buffer,
+    message: string,
+    sha?: string,
+  ): Promise<string> {
+    const params: any = {
+      owner: this.owner,
+      repo: this.repo,
+      path,
+      message,
+      content: content.toString("base64"),
+      branch: this.branch,
+    };
+
+    if (sha) {
+      params.sha = sha;
+    }
+
+    let data: any;
+    try {
+      ({ data } = await this._call(() =>
+        this.octokit.repos.createOrUpdateFileContents(params),
+      ));
+    } finally {
+      // The branch's version is revalidated by the next read
+      this.cache?.delete(`${this.branch}:${path}`);
+    }
+    const newSha = data?.content?.sha as string;
+
+    // Reads at the new commit and SHA lookups of the written file are answered from the cache
+    const commitSha = data?.commit?.sha as string | undefined;
+    if (commitSha) {
+      this.cache?.set(`${commitSha}:${path}`, {
+        file: { path, sha: newSha, content },
+      });
+    }
+    this.cache?.set(`blob:${newSha}`, content);
+    return newSha;
+  }
+
+  async deleteFile(path: string, message: string, sha: string): Promise<void> {
+    try {
+      await this._call(() =>
+        this.octokit.repos.deleteFile({
+          owner: this.owner,
+          repo: this.repo,
+          path,
+          message,
+          sha,
+          branch: this.branch,
+        }),
+      );
+    } finally {
+      this.cache?.delete(`${this.branch}:${path}`);
+    }
+  }
+
+  async createBranch(name: string, sha: string): Promise<void> {
+    try {
+      await this._call(() =>
+        this.octokit.git.createRef({
+          owner: this.owner,
+          repo: this.repo,
+          ref: `refs/heads/${name}`,
+          sha,
+        }),
+      );
+    } catch (error: any) {
+      if (error.status === 422) {
+        throw new FireGitError("already-exists", error.message, {
+          status: 422,
+          cause: error,
+        });
+      }
+      throw error;
+    }
+  }
+
+  async fastForward(name: string, sha: string): Promise<void> {
+    try {
+      // Not forced: fails unless sha contains the branch head
+      await this._call(() =>
+        this.octokit.git.updateRef({
+          owner: this.owner,
+          repo: this.repo,
+          ref: `heads/${name}`,
+          sha,
+          force: false,
+        }),
+      );
+    } catch (error: any) {
+      if (error.status === 422) {
+        throw new FireGitError("failed-precondition", error.message, {
+          status: 422,
+          cause: error,
+        });
+      }
+      throw error;
+    }
+  }
+
+  withBranch(name: string): GitHubStorage {
+    const storage = new GitHubStorage(this.octokit, {
+      owner: this.owner,
+      repo: this.repo,
+      branch: name,
+      retry: this.retry,
+      onRateLimit: this.onRateLimit,
+    });
+    // Cache keys include the ref, so the branches can share one cache
+    storage.cache = this.cache;
+    return storage;
+  }
+
+  async openPullRequest(
+    base: string,
+    options: { title: string; body?: string },
+  ): Promise<PullRequestInfo> {
+    const { data } = await this._call(() =>
+      this.octokit.pulls.create({
+        owner: this.owner,
+        repo: this.repo,
+        head: this.branch,
+        base,
+        title: options.title,
+        body: options.body,
+      }),
+    );
+    return { number: data.number, url: data.html_url };
+  }
+
+  clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Send a request, retrying rate-limited requests and server errors
+   * @param request - Sends the request
+   * @returns The response
+   * @private
+   */
+  private async _call<R>(request: () => Promise<R>): Promise<R> {
+    return withRetry(
+      async () => {
+        try {
+          const response: any = await request();
+          this._reportRateLimit(response?.headers);
+          return response;
+        } catch (error: any) {
+          this._reportRateLimit(error.response?.headers);
+          throw error;
+        }
+      },
+      (error, attempt) => retryDelay(error, attempt, this.retry),
+      this.retry,
+    );
+  }
+
+  /**
+   * Pass the rate limit headers of a response to the onRateLimit hook
+   * @param headers - The response headers
+   * @private
+   */
+  private _reportRateLimit(headers: any): void {
+    if (!this.onRateLimit || headers?.["x-ratelimit-remaining"] === undefined) {
+      return;
+    }
+    this.onRateLimit({
+      limit: Number(headers["x-ratelimit-limit"]),
+      remaining: Number(headers["x-ratelimit-remaining"]),
+      reset: new Date(Number(headers["x-ratelimit-reset"]) * 1000),
+      resource: headers["x-ratelimit-resource"] || "core",
+    });
+  }
+
+  /**
+   * Find the tree of a directory, walking down from the root tree one level at a time
+   * @param path - The directory path ("" for the root)
+   * @param ref - The branch or commit to read at
+   * @returns The tree SHA, or a branch or commit for the root, or null if the directory does not exist
+   * @private
+   */
+  private async _findTree(path: string, ref?: string): Promise<string | null> {
+    let treeSha = ref || this.branch;
+    for (const segment of path ? path.split("/") : []) {
+      const tree = await this._getTree(treeSha);
+      const entry = tree?.tree.find((item: any) => item.path === segment);
+      if (!entry) {
+        return null;
+      }
+      // If this is a single file, not a directory
+      if (entry.type !== "tree") {
+        throw new InvalidArgumentError(
+          `Expected a collection but found a file at ${path}`,
+          { path },
+        );
+      }
+      treeSha = entry.sha;
+    }
+    return treeSha;
+  }
+
+  /**
+   * Get the entries of a tree
+   * @param treeSha - A tree SHA, or a branch or commit whose root tree to get
+   * @param recursive - Include the entries of all subtrees, with paths relative to the tree
+   * @returns The tree entries and whether GitHub left some out, or null if the ref does not exist
+   * @private
+   */
+  private async _getTree(
+    treeSha: string,
+    recursive = false,
+  ): Promise<{ tree: any[]; truncated: boolean } | null> {
+    try {
+      const { data } = await this._call(() =>
+        this.octokit.git.getTree({
+          owner: this.owner,
+          repo: this.repo,
+          tree_sha: treeSha,
+          ...(recursive ? { recursive: "true" } : {}),
+        }),
+      );
+      return { tree: data.tree, truncated: !!data.truncated };
+    } catch (error: any) {
+      // 409 is returned for a repository without any commits
+      if (error.status === 404 || error.status === 409) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async commit(
+    changes: FileChange[],
+    message: string,
+    parent: string | null,
+  ): Promise<string> {
+    let baseTree: string | undefined;
+    if (parent) {
+      const { data: parentCommit } = await this._call(() =>
+        this.octokit.git.getCommit({
+          owner: this.owner,
+          repo: this.repo,
+          commit_sha: parent,
+        }),
+      );
+      baseTree = parentCommit.tree.sha;
+    }
+
+    const tree: any[] = [];
+    for (const change of changes) {
+      if (change.content === null) {
+        tree.push({
+          path: change.path,
+          mode: "100644",
+          type: "blob",
+          sha: null,
+        });
+        continue;
+      }
+
+      const { data: blob } = await this._call(() =>
+        this.octokit.git.createBlob({
+          owner: this.owner,
+          repo: this.repo,
+          content: change.content.toString("base64"),
+          encoding: "base64",
+        }),
+      );
+      tree.push({
+        path: change.path,
+        mode: "100644",
+        type: "blob",
+        sha: blob.sha,
+      });
+      this.cache?.set(`blob:${blob.sha}`, change.content);
+    }
+    for (const change of changes) {
+      this.cache?.delete(`${this.branch}:${change.path}`);
+    }
+
+    const treeParams: any = { owner: this.owner, repo: this.repo, tree };
+    if (baseTree) {
+      treeParams.base_tree = baseTree;
+    }
+    const { data: newTree } = await this._call(() =>
+      this.octokit.git.createTree(treeParams),
+    );
+
+    const { data: newCommit } = await this._call(() =>
+      this.octokit.git.createCommit({
+        owner: this.owner,
+        repo: this.repo,
+        message,
+        tree: newTree.sha,
+        parents: parent ? [parent] : [],
+      }),
+    );
+
+    if (!parent) {
+      try {
+        await this._call(() =>
+          this.octokit.git.createRef({
+            owner: this.owner,
+            repo: this.repo,
+            ref: `refs/heads/${this.branch}`,
+            sha: newCommit.sha,
+          }),
+        );
+      } catch (error: any) {
+        // The branch was created by someone else in the meantime
+        if (error.status === 422) {
+          throw conflictError(`Branch '${this.branch}' already exists`);
+        }
+        throw error;
+      }
+      return newCommit.sha;
+    }
+
+    try {
+      // Not forced: fails if the branch moved since the parent was read
+      await this._call(() =>
+        this.octokit.git.updateRef({
+          owner: this.owner,
+          repo: this.repo,
+          ref: `heads/${this.branch}`,
+          sha: newCommit.sha,
+          force: false,
+        }),
+      );
+    } catch (error: any) {
+      if (error.status === 422) {
+        throw conflictError(error.message);
+      }
+      throw error;
+    }
+
+    return newCommit.sha;
+  }
+}
+
+/**
+ * Decide whether and when to retry a failed request
+ * @param error - The error Octokit rejected with
+ * @param attempt - The number of the failed attempt, starting at 0
+ * @param options - The retry options
+ * @returns The delay in milliseconds, or null to fail
+ */
+function retryDelay(
+  error: any,
+  attempt: number,
+  options: RetryOptions,
+): number | null {
+  const status = error?.status;
+  const headers = error?.response?.headers || {};
+
+  if (isRateLimited(error)) {
+    let delay = backoff(attempt, options);
+    if (headers["retry-after"] !== undefined) {
+      delay = Number(headers["retry-after"]) * 1000;
+    } else if (headers["x-ratelimit-reset"] !== undefined) {
+      delay = Number(headers["x-ratelimit-reset"]) * 1000 - Date.now();
+    }
+    delay = Math.max(delay, 0);
+    return delay <= (options.maxDelay ?? 60000) ? delay : null;
+  }
+
+  // Transient server errors
+  if (typeof status === "number" && status >= 500) {
+    return backoff(attempt, options);
+  }
+  return null;
+}
@@ -0,0 +1,4 @@
+export * from "./adapter.js";
+export * from "./github.js";
+export * from "./memory.js";
+export * from "./local.js";
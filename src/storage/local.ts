@@ -0,0 +1,511 @@
+import { execFile } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  blobSha,
+  CommitInfo,
+  conflictError,
+  FileChange,
+  StorageAdapter,
+  StorageEntry,
+  StoredFile,
+} from "./adapter.js";
+import {
+  FireGitError,
+  InvalidArgumentError,
+  NotFoundError,
+} from "../errors.js";
+
+/**
+ * Options for the local Git storage adapter
+ */
+export interface LocalGitStorageOptions {
+  /** Path of a Git working tree or bare repository */
+  path: string;
+  branch?: string;
+  /** Commit author, defaults to the repository's Git config */
+  author?: { name: string; email: string };
+}
+
+/**
+ * Result of running a git command
+ */
+interface GitResult {
+  code: number;
+  stdout: Buffer;
+  stderr: string;
+}
+
+/**
+ * LocalGitStorage - Stores data in a local Git repository using plumbing commands.
+ *
+ * Commits are written straight to the branch ref, so bare repositories work too.
+ * When the branch is checked out in a working tree, the files are updated as well.
+ */
+export class LocalGitStorage implements StorageAdapter {
+  readonly branch: string;
+  private path: string;
+  private author?: { name: string; email: string };
+
+  constructor(options: LocalGitStorageOptions) {
+    this.path = options.path;
+    this.branch = options.branch || "main";
+    this.author = options.author;
+  }
+
+  async getHead(): Promise<string | null> {
+    const result = await this._git(
+      ["rev-parse", "--verify", "-q", `refs/heads/${this.branch}^{commit}`],
+      { allowFailure: true },
+    );
+    return result.code === 0 ? result.stdout.toString().trim() : null;
+  }
+
+  async readFile(path: string, ref?: string): Promise<StoredFile | null> {
+    const entry = await this._lsEntry(path, ref);
+    if (!entry || entry.type !== "file") {
+      return null;
+    }
+    return { path, sha: entry.sha, content: await this.readBlob(entry.sha) };
+  }
+
+  async readBlob(sha: string): Promise<Buffer> {
+    const { stdout } = await this._git(["cat-file", "blob", sha]);
+    return stdout;
+  }
+
+  async listDirectory(
+    path: string,
+    ref?: string,
+  ): Promise<StorageEntry[] | null> {
+    const treeish = await this._findTree(path, ref);
+    if (!treeish) {
+      return null;
+    }
+
+    const { stdout } = await this._git(["ls-tree", "-z", treeish]);
+    return this._parseTree(stdout).map((entry) => ({
+      ...entry,
+      path: path ? `${path}/${entry.name}` : entry.name,
+    }));
+  }
+
+  async listTree(path: string, ref?: string): Promise<StorageEntry[] | null> {
+    const treeish = await this._findTree(path, ref);
+    if (!treeish) {
+      return null;
+    }
+
+    const { stdout } = await this._git(["ls-tree", "-r", "-z", treeish]);
+    return this._parseTree(stdout).map((entry) => ({
+      ...entry,
+      path: path ? `${path}/${entry.path}` : entry.path,
+    }));
+  }
+
+  async history(
+    path: string,
+    options: { limit?: number; ref?: string } = {},
+  ): Promise<CommitInfo[]> {
+    const head = await this._resolve(options.ref);
+    if (!head) {
+      return [];
+    }
+
+    // Fields are NUL-separated and commits end with a record separator
+    const args = ["log", "--format=%H%x00%an%x00%ae%x00%aI%x00%B%x1e"];
+    if (options.limit !== undefined) {
+      args.push("-n", String(options.limit));
+    }
+    const { stdout } = await this._git([...args, head, "--", path]);
+
+    return stdout
+      .toString("utf8")
+      .split("\x1e")
+      .map((record) => record.replace(/^\n/, ""))
+      .filter(Boolean)
+      .map((record) => {
+        const [sha, name, email, date, message] = record.split("\0");
+        return {
+          sha,
+          message: message.trim(),
+          author: { name, email },
+          date: new Date(date),
+        };
+      });
+  }
+
+  async getCommitAt(date: Date): Promise<string | null> {
+    const head = await this.getHead();
+    const seconds = Math.floor(date.getTime() / 1000);
+    // Git reads a limit of 0 as no limit, and no commit predates the epoch
+    if (!head || seconds <= 0) {
+      return null;
+    }
+    const { stdout } = await this._git([
+      "rev-list",
+      "-1",
+      `--before=@${seconds}`,
+      head,
+    ]);
+    return stdout.toString().trim() || null;
+  }
+
+  async writeFile(
+    path: string,
+    content: Buffer,
+    message: string,
+    sha?: string,
+  ): Promise<string> {
+    const head = await this.getHead();
+    await this._assertFileSha(path, head, sha);
+    await this.commit([{ path, content }], message, head);
+    return blobSha(content);
+  }
+
+  async deleteFile(path: string, message: string, sha: string): Promise<void> {
+    const head = await this.getHead();
+    await this._assertFileSha(path, head, sha);
+    await this.commit([{ path, content: null }], message, head);
+  }
+
+  async commit(
+    changes: FileChange[],
+    message: string,
+    parent: string | null,
+  ): Promise<string> {
+    // Build the tree in a throwaway index so the real index is left alone
+    const indexFile = join(tmpdir(), `firegit-index-${randomUUID()}`);
+    const env = { GIT_INDEX_FILE: indexFile };
+
+    try {
+      await this._git(
+        parent ? ["read-tree", parent] : ["read-tree", "--empty"],
+        {
+          env,
+        },
+      );
+
+      // "<mode> <sha>\t<path>" per change, mode 0 removes the path
+      const indexInfo: string[] = [];
+      for (const change of changes) {
+        if (change.content === null) {
+          indexInfo.push(`0 ${"0".repeat(40)}\t${change.path}\0`);
+          continue;
+        }
+        const { stdout } = await this._git(["hash-object", "-w", "--stdin"], {
+          input: change.content,
+        });
+        indexInfo.push(`100644 ${stdout.toString().trim()}\t${change.path}\0`);
+      }
+      await this._git(["update-index", "-z", "--index-info"], {
+        env,
+        input: Buffer.from(indexInfo.join("")),
+      });
+
+      const tree = (await this._git(["write-tree"], { env })).stdout
+        .toString()
+        .trim();
+      const commitArgs = ["commit-tree", tree, "-m", message];
+      if (parent) {
+        commitArgs.push("-p", parent);
+      }
+      const commit = (
+        await this._git(commitArgs, { env: this._authorEnv() })
+      ).stdout
+        .toString()
+        .trim();
+
+      // update-ref compares against the expected old value atomically
+      const update = await this._git(
+        [
+          "update-ref",
+          `refs/heads/${this.branch}`,
+          commit,
+          parent || "0".repeat(40),
+        ],
+        { allowFailure: true },
+      );
+      if (update.code !== 0) {
+        throw conflictError(
+          update.stderr.trim() || "Update is not a fast forward",
+        );
+      }
+
+      await this._updateWorkingTree(parent, commit);
+      return commit;
+    } finally {
+      await rm(indexFile, { force: true });
+    }
+  }
+
+  async createBranch(name: string, sha: string): Promise<void> {
+    // The zero old value makes update-ref fail if the branch exists
+    const update = await this._git(
+      ["update-ref", `refs/heads/${name}`, sha, "0".repeat(40)],
+      { allowFailure: true },
+    );
+    if (update.code !== 0) {
+      const exists = await this._git(
+        ["rev-parse", "--verify", "-q", `refs/heads/${name}`],
+        { allowFailure: true },
+      );
+      if (exists.code === 0) {
+        throw new FireGitError(
+          "already-exists",
+          `Branch '${name}' already exists`,
+        );
+      }
+      throw new NotFoundError(update.stderr.trim());
+    }
+  }
+
+  async fastForward(name: string, sha: string): Promise<void> {
+    const head = await this._git(
+      ["rev-parse", "--verify", "-q", `refs/heads/${name}^{commit}`],
+      { allowFailure: true },
+    );
+    if (head.code !== 0) {
+      throw new NotFoundError(`No branch found with the name: ${name}`);
+    }
+    const oldCommit = head.stdout.toString().trim();
+
+    const ancestor = await this._git(
+      ["merge-base", "--is-ancestor", oldCommit, sha],
+      { allowFailure: true },
+    );
+    if (ancestor.code !== 0) {
+      throw new FireGitError(
+        "failed-precondition",
+        `Branch '${name}' has commits that ${sha} does not contain`,
+      );
+    }
+
+    const update = await this._git(
+      ["update-ref", `refs/heads/${name}`, sha, oldCommit],
+      { allowFailure: true },
+    );
+    if (update.code !== 0) {
+      throw conflictError(
+        update.stderr.trim() || "Update is not a fast forward",
+      );
+    }
+    await this._updateWorkingTree(oldCommit, sha, name);
+  }
+
+  withBranch(name: string): LocalGitStorage {
+    return new LocalGitStorage({
+      path: this.path,
+      branch: name,
+      author: this.author,
+    });
+  }
+
+  /**
+   * Bring a checked-out working tree up to date with a new commit on its branch
+   * @param oldCommit - The previous branch head
+   * @param newCommit - The new branch head
+   * @param branch - The branch that moved, defaults to the adapter's branch
+   * @private
+   */
+  private async _updateWorkingTree(
+    oldCommit: string | null,
+    newCommit: string,
+    branch = this.branch,
+  ): Promise<void> {
+    const bare = await this._git(["rev-parse", "--is-bare-repository"]);
+    if (bare.stdout.toString().trim() === "true") {
+      return;
+    }
+    const head = await this._git(["symbolic-ref", "-q", "HEAD"], {
+      allowFailure: true,
+    });
+    if (head.stdout.toString().trim() !== `refs/heads/${branch}`) {
+      return;
+    }
+    // A two-tree merge keeps unrelated local changes; failures leave the
+    // working tree behind but never affect the committed data
+    await this._git(
+      oldCommit
+        ? ["read-tree", "-m", "-u", oldCommit, newCommit]
+        : ["read-tree", "-m", "-u", newCommit],
+      { allowFailure: true },
+    );
+  }
+
+  /**
+   * Find the tree of a directory
+   * @param path - The directory path ("" for the root)
+   * @param ref - The branch or commit, defaults to the adapter's branch
+   * @returns The tree SHA, or the commit for the root, or null if the directory does not exist
+   * @private
+   */
+  private async _findTree(path: string, ref?: string): Promise<string | null> {
+    if (!path) {
+      return this._resolve(ref);
+    }
+    const entry = await this._lsEntry(path, ref);
+    if (!entry) {
+      return null;
+    }
+    if (entry.type === "file") {
+      throw new InvalidArgumentError(
+        `Expected a collection but found a file at ${path}`,
+        { path },
+      );
+    }
+    return entry.sha;
+  }
+
+  /**
+   * Look up a single path in the tree of a commit
+   * @param path - The path
+   * @param ref - The branch or commit, defaults to the adapter's branch
+   * @returns The entry, or null if nothing exists at the path
+   * @private
+   */
+  private async _lsEntry(
+    path: string,
+    ref?: string,
+  ): Promise<StorageEntry | null> {
+    const commit = await this._resolve(ref);
+    if (!commit) {
+      return null;
+    }
+    const { stdout } = await this._git(["ls-tree", "-z", commit, "--", path]);
+    const entry = this._parseTree(stdout).find((item) => item.path === path);
+    return entry ? { ...entry, path } : null;
+  }
+
+  /**
+   * Resolve a branch name or commit SHA to a commit
+   * @param ref - The branch or commit, defaults to the adapter's branch
+   * @returns The commit SHA, or null if the branch has no commits yet
+   * @private
+   */
+  private async _resolve(ref?: string): Promise<string | null> {
+    if (!ref || ref === this.branch) {
+      return this.getHead();
+    }
+    const result = await this._git(
+      ["rev-parse", "--verify", "-q", `${ref}^{commit}`],
+      { allowFailure: true },
+    );
+    if (result.code !== 0) {
+      throw new NotFoundError(`No commit found for the ref: ${ref}`);
+    }
+    return result.stdout.toString().trim();
+  }
+
+  /**
+   * Parse the NUL-separated output of git ls-tree -z
+   * @param output - The command output
+   * @returns The entries, with path set to the name as printed
+   * @private
+   */
+  private _parseTree(output: Buffer): StorageEntry[] {
+    return output
+      .toString("utf8")
+      .split("\0")
+      .filter(Boolean)
+      .map((line) => {
+        // "<mode> <type> <sha>\t<name>"
+        const [meta, name] = line.split("\t");
+        const [, type, sha] = meta.split(" ");
+        return {
+          name: name.split("/").pop()!,
+          path: name,
+          type: type === "tree" ? "dir" : "file",
+          sha,
+        } as StorageEntry;
+      });
+  }
+
+  /**
+   * Reject single-file writes whose SHA does not match the current file
+   * @param path - The file path
+   * @param head - The commit to compare against
+   * @param sha - The blob SHA the caller read, undefined if the file was missing
+   * @private
+   */
+  private async _assertFileSha(
+    path: string,
+    head: string | null,
+    sha?: string,
+  ): Promise<void> {
+    const current = head ? await this.readFile(path, head) : null;
+    if (current?.sha !== sha) {
+      throw conflictError(`${path} does not match ${sha}`);
+    }
+  }
+
+  /**
+   * Environment variables that set the commit author, if configured
+   * @returns The environment overrides
+   * @private
+   */
+  private _authorEnv(): Record<string, string> {
+    if (!this.author) {
+      return {};
+    }
+    return {
+      GIT_AUTHOR_NAME: this.author.name,
+      GIT_AUTHOR_EMAIL: this.author.email,
+      GIT_COMMITTER_NAME: this.author.name,
+      GIT_COMMITTER_EMAIL: this.author.email,
+    };
+  }
+
+  /**
+   * Run a git command in the repository
+   * @param args - The git arguments
+   * @param options - Extra environment, stdin input, and whether a non-zero exit is expected
+   * @returns The exit code and output
+   * @private
+   */
+  private _git(
+    args: string[],
+    options: {
+      env?: Record<string, string>;
+      input?: Buffer;
+      allowFailure?: boolean;
+    } = {},
+  ): Promise<GitResult> {
+    return new Promise((resolve, reject) => {
+      const child = execFile(
+        "git",
+        args,
+        {
+          cwd: this.path,
+          env: { ...process.env, ...options.env },
+          encoding: "buffer",
+          maxBuffer: 256 * 1024 * 1024,
+        },
+        (error: any, stdout, stderr) => {
+          const code = error
+            ? typeof error.code === "number"
+              ? error.code
+              : 1
+            : 0;
+          if (
+            error &&
+            (!options.allowFailure || typeof error.code !== "number")
+          ) {
+            reject(
+              new Error(
+                `git ${args[0]} failed: ${stderr.toString().trim() || error.message}`,
+              ),
+            );
+            return;
+          }
+          resolve({ code, stdout, stderr: stderr.toString() });
+        },
+      );
+      if (options.input) {
+        child.stdin!.end(options.input);
+      }
+    });
+  }
+}
@@ -0,0 +1,381 @@
+import { createHash } from "node:crypto";
+import {
+  blobSha,
+  CommitInfo,
+  conflictError,
+  FileChange,
+  StorageAdapter,
+  StorageEntry,
+  StoredFile,
+} from "./adapter.js";
+import {
+  FireGitError,
+  InvalidArgumentError,
+  NotFoundError,
+} from "../errors.js";
+
+/**
+ * Options for the in-memory storage adapter
+ */
+export interface MemoryStorageOptions {
+  branch?: string;
+  /** Files of the initial commit, keyed by path */
+  files?: Record<string, string | Buffer>;
+  /** Commit author, defaults to "FireGit <firegit@localhost>" */
+  author?: { name: string; email: string };
+}
+
+/**
+ * A commit held in memory - files maps every path to its blob SHA
+ */
+interface MemoryCommit {
+  sha: string;
+  parent: string | null;
+  files: Map<string, string>;
+  message: string;
+  author: { name: string; email: string };
+  date: Date;
+}
+
+/**
+ * MemoryStorage - Keeps a Git-like history in memory, for tests and local development
+ */
+export class MemoryStorage implements StorageAdapter {
+  readonly branch: string;
+  private blobs = new Map<string, Buffer>();
+  private commits = new Map<string, MemoryCommit>();
+  private refs = new Map<string, string>();
+  private author: { name: string; email: string };
+
+  constructor(options: MemoryStorageOptions = {}) {
+    this.branch = options.branch || "main";
+    this.author = options.author || {
+      name: "FireGit",
+      email: "firegit@localhost",
+    };
+
+    if (options.files) {
+      const changes = Object.entries(options.files).map(([path, content]) => ({
+        path,
+        content: Buffer.isBuffer(content) ? content : Buffer.from(content),
+      }));
+      this._createCommit(changes, "Initial commit", null);
+    }
+  }
+
+  async getHead(): Promise<string | null> {
+    return this.refs.get(this.branch) ?? null;
+  }
+
+  async readFile(path: string, ref?: string): Promise<StoredFile | null> {
+    const files = this._resolveFiles(ref);
+    const sha = files.get(path);
+    if (!sha) {
+      return null;
+    }
+    return { path, sha, content: Buffer.from(this.blobs.get(sha)!) };
+  }
+
+  async readBlob(sha: string): Promise<Buffer> {
+    const content = this.blobs.get(sha);
+    if (!content) {
+      throw new NotFoundError(`No blob found for the SHA: ${sha}`);
+    }
+    return Buffer.from(content);
+  }
+
+  async listDirectory(
+    path: string,
+    ref?: string,
+  ): Promise<StorageEntry[] | null> {
+    const files = this._resolveFiles(ref);
+    if (files.has(path)) {
+      throw new InvalidArgumentError(
+        `Expected a collection but found a file at ${path}`,
+        { path },
+      );
+    }
+
+    const prefix = path ? `${path}/` : "";
+    const entries = new Map<string, StorageEntry>();
+    const dirContents = new Map<string, string[]>();
+
+    for (const [filePath, sha] of files) {
+      if (!filePath.startsWith(prefix)) {
+        continue;
+      }
+      const rest = filePath.slice(prefix.length);
+      const slash = rest.indexOf("/");
+      if (slash === -1) {
+        entries.set(rest, { name: rest, path: filePath, type: "file", sha });
+        continue;
+      }
+      // Directories only exist implicitly through the files below them
+      const name = rest.slice(0, slash);
+      if (!dirContents.has(name)) {
+        dirContents.set(name, []);
+      }
+      dirContents.get(name)!.push(`${rest.slice(slash + 1)}:${sha}`);
+    }
+
+    for (const [name, contents] of dirContents) {
+      const sha = createHash("sha1")
+        .update(contents.sort().join("\n"))
+        .digest("hex");
+      entries.set(name, { name, path: `${prefix}${name}`, type: "dir", sha });
+    }
+
+    if (entries.size === 0) {
+      return null;
+    }
+    return [...entries.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async listTree(path: string, ref?: string): Promise<StorageEntry[] | null> {
+    const files = this._resolveFiles(ref);
+    if (files.has(path)) {
+      throw new InvalidArgumentError(
+        `Expected a collection but found a file at ${path}`,
+        { path },
+      );
+    }
+
+    const prefix = path ? `${path}/` : "";
+    const entries: StorageEntry[] = [];
+    for (const [filePath, sha] of files) {
+      if (filePath.startsWith(prefix)) {
+        const name = filePath.slice(filePath.lastIndexOf("/") + 1);
+        entries.push({ name, path: filePath, type: "file", sha });
+      }
+    }
+
+    if (entries.length === 0) {
+      return null;
+    }
+    return entries.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async history(
+    path: string,
+    options: { limit?: number; ref?: string } = {},
+  ): Promise<CommitInfo[]> {
+    const commits: CommitInfo[] = [];
+    let sha: string | null = await this.getHead();
+    if (options.ref && options.ref !== this.branch) {
+      sha = this.refs.get(options.ref) ?? options.ref;
+      if (!this.commits.has(sha)) {
+        throw new NotFoundError(`No commit found for the ref: ${options.ref}`);
+      }
+    }
+
+    while (
+      sha &&
+      (options.limit === undefined || commits.length < options.limit)
+    ) {
+      const commit = this.commits.get(sha)!;
+      const parentFiles = commit.parent
+        ? this.commits.get(commit.parent)!.files
+        : new Map<string, string>();
+      if (commit.files.get(path) !== parentFiles.get(path)) {
+        commits.push(this._toCommitInfo(commit));
+      }
+      sha = commit.parent;
+    }
+
+    return commits;
+  }
+
+  async getCommitAt(date: Date): Promise<string | null> {
+    let sha = await this.getHead();
+    while (sha) {
+      const commit = this.commits.get(sha)!;
+      if (commit.date.getTime() <= date.getTime()) {
+        return sha;
+      }
+      sha = commit.parent;
+    }
+    return null;
+  }
+
+  async writeFile(
+    path: string,
+    content: Buffer,
+    message: string,
+    sha?: string,
+  ): Promise<string> {
+    const head = await this.getHead();
+    this._assertFileSha(path, sha);
+    this._createCommit([{ path, content }], message, head);
+    return blobSha(content);
+  }
+
+  async deleteFile(path: string, message: string, sha: string): Promise<void> {
+    const head = await this.getHead();
+    this._assertFileSha(path, sha);
+    this._createCommit([{ path, content: null }], message, head);
+  }
+
+  async commit(
+    changes: FileChange[],
+    message: string,
+    parent: string | null,
+  ): Promise<string> {
+    if ((await this.getHead()) !== parent) {
+      throw conflictError("Update is not a fast forward");
+    }
+    return this._createCommit(changes, message, parent);
+  }
+
+  async createBranch(name: string, sha: string): Promise<void> {
+    if (this.refs.has(name)) {
+      throw new FireGitError(
+        "already-exists",
+        `Branch '${name}' already exists`,
+      );
+    }
+    if (!this.commits.has(sha)) {
+      throw new NotFoundError(`No commit found for the SHA: ${sha}`);
+    }
+    this.refs.set(name, sha);
+  }
+
+  async fastForward(name: string, sha: string): Promise<void> {
+    const head = this.refs.get(name);
+    if (!head) {
+      throw new NotFoundError(`No branch found with the name: ${name}`);
+    }
+    if (!this._isAncestor(head, sha)) {
+      throw new FireGitError(
+        "failed-precondition",
+        `Branch '${name}' has commits that ${sha} does not contain`,
+      );
+    }
+    this.refs.set(name, sha);
+  }
+
+  withBranch(name: string): MemoryStorage {
+    // The branches share one history, like the refs of a repository
+    const storage = new MemoryStorage({ branch: name, author: this.author });
+    storage.blobs = this.blobs;
+    storage.commits = this.commits;
+    storage.refs = this.refs;
+    return storage;
+  }
+
+  /**
+   * Check whether a commit is reachable from another one
+   * @param ancestor - The commit to look for
+   * @param sha - The commit to start from
+   * @returns True if ancestor is sha or one of its parents
+   * @private
+   */
+  private _isAncestor(ancestor: string, sha: string): boolean {
+    let current: string | null = sha;
+    while (current) {
+      if (current === ancestor) {
+        return true;
+      }
+      const commit = this.commits.get(current);
+      if (!commit) {
+        throw new NotFoundError(`No commit found for the SHA: ${current}`);
+      }
+      current = commit.parent;
+    }
+    return false;
+  }
+
+  /**
+   * Create a commit on top of parent and move the branch to it
+   * @param changes - The file changes
+   * @param message - The commit message
+   * @param parent - The parent commit SHA
+   * @returns The new commit SHA
+   * @private
+   */
+  private _createCommit(
+    changes: FileChange[],
+    message: string,
+    parent: string | null,
+  ): string {
+    const files = new Map(parent ? this.commits.get(parent)!.files : []);
+
+    for (const change of changes) {
+      if (change.content === null) {
+        files.delete(change.path);
+        continue;
+      }
+      const sha = blobSha(change.content);
+      this.blobs.set(sha, Buffer.from(change.content));
+      files.set(change.path, sha);
+    }
+
+    const date = new Date();
+    const sha = createHash("sha1")
+      .update(
+        JSON.stringify({
+          parent,
+          files: [...files].sort(),
+          message,
+          date: date.toISOString(),
+          // Keeps commits made within the same millisecond apart
+          count: this.commits.size,
+        }),
+      )
+      .digest("hex");
+
+    this.commits.set(sha, {
+      sha,
+      parent,
+      files,
+      message,
+      author: this.author,
+      date,
+    });
+    this.refs.set(this.branch, sha);
+    return sha;
+  }
+
+  /**
+   * Describe a commit without its files
+   * @param commit - The commit
+   * @returns The commit info
+   * @private
+   */
+  private _toCommitInfo(commit: MemoryCommit): CommitInfo {
+    const { sha, message, author, date } = commit;
+    return { sha, message, author: { ...author }, date: new Date(date) };
+  }
+
+  /**
+   * Resolve a branch name or commit SHA to the files of that commit
+   * @param ref - The branch or commit, defaults to the adapter's branch
+   * @returns The files of the commit, keyed by path
+   * @private
+   */
+  private _resolveFiles(ref?: string): Map<string, string> {
+    const name = ref || this.branch;
+    const sha = this.refs.get(name) ?? name;
+    const commit = this.commits.get(sha);
+    if (commit) {
+      return commit.files;
+    }
+    if (name === this.branch) {
+      // The branch has no commits yet
+      return new Map();
+    }
+    throw new NotFoundError(`No commit found for the ref: ${name}`);
+  }
+
+  /**
+   * Reject single-file writes whose SHA does not match the current file
+   * @param path - The file path
+   * @param sha - The blob SHA the caller read, undefined if the file was missing
+   * @private
+   */
+  private _assertFileSha(path: string, sha?: string): void {
+    const current = this._resolveFiles().get(path);
+    if (current !== sha) {
+      throw conflictError(`${path} does not match ${sha}`);
+    }
+  }
+}
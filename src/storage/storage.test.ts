@@ -0,0 +1,613 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import FireGit from "../database.js";
+import {
+  GitHubStorage,
+  LocalGitStorage,
+  MemoryStorage,
+  StorageAdapter,
+  blobSha,
+} from "./index.js";
+
+const author = { name: "FireGit Test", email: "test@example.com" };
+
+/**
+ * Create an empty local repository for a test
+ */
+async function createRepo(bare: boolean): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "firegit-test-"));
+  execFileSync("git", [
+    "init",
+    "-q",
+    ...(bare ? ["--bare"] : []),
+    "--initial-branch=main",
+    dir,
+  ]);
+  return dir;
+}
+
+const backends: Array<{
+  name: string;
+  create: () => Promise<{ storage: StorageAdapter; dir?: string }>;
+}> = [
+  {
+    name: "MemoryStorage",
+    create: async () => ({ storage: new MemoryStorage() }),
+  },
+  {
+    name: "LocalGitStorage (bare)",
+    create: async () => {
+      const dir = await createRepo(true);
+      return { storage: new LocalGitStorage({ path: dir, author }), dir };
+    },
+  },
+  {
+    name: "LocalGitStorage (working tree)",
+    create: async () => {
+      const dir = await createRepo(false);
+      return { storage: new LocalGitStorage({ path: dir, author }), dir };
+    },
+  },
+];
+
+describe.each(backends)("$name", ({ create }) => {
+  let storage: StorageAdapter;
+  let dir: string | undefined;
+
+  beforeEach(async () => {
+    ({ storage, dir } = await create());
+  });
+
+  afterEach(async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should start without a head", async () => {
+    expect(await storage.getHead()).toBeNull();
+    expect(await storage.readFile("users/1.json")).toBeNull();
+    expect(await storage.listDirectory("users")).toBeNull();
+  });
+
+  it("should write, read and list files", async () => {
+    const content = Buffer.from('{"name":"One"}');
+    const sha = await storage.writeFile("users/1.json", content, "Create");
+    await storage.writeFile("users/2/posts/1.json", Buffer.from("{}"), "Post");
+
+    expect(sha).toBe(blobSha(content));
+    expect(await storage.readFile("users/1.json")).toEqual({
+      path: "users/1.json",
+      sha,
+      content,
+    });
+
+    const entries = await storage.listDirectory("users");
+    expect(
+      entries!.map(({ name, path, type }) => ({ name, path, type })),
+    ).toEqual([
+      { name: "1.json", path: "users/1.json", type: "file" },
+      { name: "2", path: "users/2", type: "dir" },
+    ]);
+    await expect(storage.listDirectory("users/1.json")).rejects.toThrow(
+      "Expected a collection but found a file",
+    );
+  });
+
+  it("should list all files below a directory", async () => {
+    await storage.commit(
+      [
+        { path: "users/1.json", content: Buffer.from("{}") },
+        { path: "users/1/posts/a.json", content: Buffer.from("{}") },
+        { path: "teams/x.json", content: Buffer.from("{}") },
+      ],
+      "Create",
+      null,
+    );
+
+    const files = await storage.listTree("users");
+    expect(
+      files!.map(({ name, path, type }) => ({ name, path, type })),
+    ).toEqual([
+      { name: "1.json", path: "users/1.json", type: "file" },
+      { name: "a.json", path: "users/1/posts/a.json", type: "file" },
+    ]);
+    expect((await storage.listTree(""))!.map((file) => file.path)).toEqual([
+      "teams/x.json",
+      "users/1.json",
+      "users/1/posts/a.json",
+    ]);
+    expect(await storage.listTree("missing")).toBeNull();
+  });
+
+  it("should reject single-file writes with a stale SHA", async () => {
+    const sha = await storage.writeFile("a.json", Buffer.from("1"), "One");
+    await storage.writeFile("a.json", Buffer.from("2"), "Two", sha);
+
+    await expect(
+      storage.writeFile("a.json", Buffer.from("3"), "Three", sha),
+    ).rejects.toMatchObject({ status: 409 });
+    await expect(
+      storage.writeFile("a.json", Buffer.from("3"), "Three"),
+    ).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("should delete files", async () => {
+    const sha = await storage.writeFile("a.json", Buffer.from("1"), "One");
+    await storage.deleteFile("a.json", "Delete", sha);
+
+    expect(await storage.readFile("a.json")).toBeNull();
+  });
+
+  it("should commit several changes against a parent", async () => {
+    const first = await storage.commit(
+      [
+        { path: "a.json", content: Buffer.from("a") },
+        { path: "b.json", content: Buffer.from("b") },
+      ],
+      "First",
+      null,
+    );
+    const second = await storage.commit(
+      [
+        { path: "a.json", content: null },
+        { path: "c.json", content: Buffer.from("c") },
+      ],
+      "Second",
+      first,
+    );
+
+    expect(await storage.getHead()).toBe(second);
+    expect(await storage.readFile("a.json")).toBeNull();
+    expect((await storage.readFile("a.json", first))!.content.toString()).toBe(
+      "a",
+    );
+    expect((await storage.readFile("c.json"))!.content.toString()).toBe("c");
+
+    // The branch no longer points to the first commit
+    await expect(
+      storage.commit(
+        [{ path: "d.json", content: Buffer.from("d") }],
+        "Stale",
+        first,
+      ),
+    ).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("should list the commits that changed a file", async () => {
+    const sha = await storage.writeFile("a.json", Buffer.from("1"), "One");
+    await storage.writeFile("b.json", Buffer.from("1"), "Other");
+    const two = await storage.writeFile("a.json", Buffer.from("2"), "Two", sha);
+    await storage.deleteFile("a.json", "Delete", two);
+
+    const history = await storage.history("a.json");
+    expect(history.map((commit) => commit.message)).toEqual([
+      "Delete",
+      "Two",
+      "One",
+    ]);
+    expect(history[0].sha).toBe(await storage.getHead());
+    expect(history[0].date).toBeInstanceOf(Date);
+    expect(history[0].author.name).toBeTruthy();
+
+    expect(await storage.history("a.json", { limit: 2 })).toHaveLength(2);
+    expect(await storage.history("missing.json")).toEqual([]);
+
+    // Starting from an older commit skips the later changes
+    const older = await storage.history("a.json", { ref: history[1].sha });
+    expect(older.map((commit) => commit.message)).toEqual(["Two", "One"]);
+  });
+
+  it("should find the commit current at a date", async () => {
+    expect(await storage.getCommitAt(new Date())).toBeNull();
+
+    await storage.writeFile("a.json", Buffer.from("1"), "One");
+
+    expect(await storage.getCommitAt(new Date(Date.now() + 1000))).toBe(
+      await storage.getHead(),
+    );
+    expect(await storage.getCommitAt(new Date(0))).toBeNull();
+  });
+
+  it("should create branches and fast-forward them", async () => {
+    const base = await storage.writeFile("a.json", Buffer.from("1"), "One");
+    const head = (await storage.getHead())!;
+    await storage.createBranch("staging", head);
+    await expect(storage.createBranch("staging", head)).rejects.toMatchObject({
+      code: "already-exists",
+    });
+
+    const staging = storage.withBranch("staging");
+    await staging.writeFile("a.json", Buffer.from("2"), "Two", base);
+    const stagingHead = (await staging.getHead())!;
+    expect((await storage.readFile("a.json"))?.content.toString()).toBe("1");
+
+    await storage.fastForward("main", stagingHead);
+    expect(await storage.getHead()).toBe(stagingHead);
+    expect((await storage.readFile("a.json"))?.content.toString()).toBe("2");
+
+    // main moved on, so the older staging head is no fast-forward
+    await storage.writeFile("b.json", Buffer.from("1"), "Other");
+    await expect(
+      storage.fastForward("main", stagingHead),
+    ).rejects.toMatchObject({ code: "failed-precondition" });
+  });
+});
+
+describe("LocalGitStorage", () => {
+  it("should keep a checked-out working tree in sync", async () => {
+    const dir = await createRepo(false);
+    try {
+      const storage = new LocalGitStorage({ path: dir, author });
+      await storage.writeFile("users/1.json", Buffer.from("{}"), "Create");
+
+      expect(await readFile(join(dir, "users/1.json"), "utf8")).toBe("{}");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("GitHubStorage", () => {
+  it("should resolve an unchanged head with a conditional request", async () => {
+    const notModified = Object.assign(new Error("Not modified"), {
+      status: 304,
+    });
+    const getRef = vi
+      .fn()
+      .mockResolvedValueOnce({
+        data: { object: { sha: "abc" } },
+        headers: { etag: '"etag-1"' },
+      })
+      .mockRejectedValueOnce(notModified);
+    const storage = new GitHubStorage({ git: { getRef } } as any, {
+      owner: "test-owner",
+      repo: "test-repo",
+    });
+
+    expect(await storage.getHead()).toBe("abc");
+    expect(await storage.getHead()).toBe("abc");
+    expect(getRef).toHaveBeenLastCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      ref: "heads/main",
+      headers: { "if-none-match": '"etag-1"' },
+    });
+  });
+});
+
+describe("GitHubStorage large files", () => {
+  it("should read files without inline content through the Blobs API", async () => {
+    const content = Buffer.alloc(2 * 1024 * 1024, "a");
+    const octokit: any = {
+      repos: {
+        getContent: vi.fn().mockResolvedValue({
+          data: {
+            sha: "sha-1",
+            size: content.length,
+            content: "",
+            encoding: "none",
+          },
+          headers: {},
+        }),
+      },
+      git: {
+        getBlob: vi.fn().mockResolvedValue({
+          data: { content: content.toString("base64") },
+          headers: {},
+        }),
+      },
+    };
+    const storage = new GitHubStorage(octokit, { owner: "o", repo: "r" });
+
+    const file = await storage.readFile("users/alice.json");
+
+    expect(file?.content.equals(content)).toBe(true);
+    expect(octokit.git.getBlob).toHaveBeenCalledWith({
+      owner: "o",
+      repo: "r",
+      file_sha: "sha-1",
+    });
+  });
+});
+
+describe("GitHubStorage branches", () => {
+  it("should create branches and open pull requests", async () => {
+    const exists = Object.assign(new Error("Reference already exists"), {
+      status: 422,
+    });
+    const octokit: any = {
+      git: { createRef: vi.fn().mockRejectedValue(exists) },
+      pulls: {
+        create: vi.fn().mockResolvedValue({
+          data: { number: 7, html_url: "https://github.com/o/r/pull/7" },
+        }),
+      },
+    };
+    const storage = new GitHubStorage(octokit, { owner: "o", repo: "r" });
+
+    await expect(storage.createBranch("staging", "abc")).rejects.toMatchObject({
+      code: "already-exists",
+      status: 422,
+    });
+    expect(
+      await storage
+        .withBranch("staging")
+        .openPullRequest("main", { title: "Spring catalog" }),
+    ).toEqual({ number: 7, url: "https://github.com/o/r/pull/7" });
+    expect(octokit.pulls.create).toHaveBeenCalledWith({
+      owner: "o",
+      repo: "r",
+      head: "staging",
+      base: "main",
+      title: "Spring catalog",
+      body: undefined,
+    });
+  });
+});
+
+describe("GitHubStorage retries", () => {
+  const httpError = (status: number, headers: Record<string, string> = {}) =>
+    Object.assign(new Error(`HTTP ${status}`), {
+      status,
+      response: { headers },
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should wait for retry-after on rate limits and report the budget", async () => {
+    const budget = {
+      "x-ratelimit-limit": "5000",
+      "x-ratelimit-remaining": "4999",
+      "x-ratelimit-reset": "1700000000",
+      "x-ratelimit-resource": "core",
+    };
+    const getBlob = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(403, { "retry-after": "2" }))
+      .mockResolvedValueOnce({
+        data: { content: Buffer.from("{}").toString("base64") },
+        headers: budget,
+      });
+    const onRateLimit = vi.fn();
+    const storage = new GitHubStorage({ git: { getBlob } } as any, {
+      owner: "test-owner",
+      repo: "test-repo",
+      onRateLimit,
+    });
+
+    const read = storage.readBlob("abc");
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(getBlob).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await read).toString()).toBe("{}");
+    expect(getBlob).toHaveBeenCalledTimes(2);
+    expect(onRateLimit).toHaveBeenCalledWith({
+      limit: 5000,
+      remaining: 4999,
+      reset: new Date(1700000000 * 1000),
+      resource: "core",
+    });
+  });
+
+  it("should back off on server errors and fail on other errors", async () => {
+    const getBlob = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(502))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce({ data: { content: "" } })
+      .mockRejectedValueOnce(httpError(404));
+    const storage = new GitHubStorage({ git: { getBlob } } as any, {
+      owner: "test-owner",
+      repo: "test-repo",
+      retry: { minDelay: 100 },
+    });
+
+    const read = storage.readBlob("abc");
+    await vi.advanceTimersByTimeAsync(100 + 200);
+    await read;
+    expect(getBlob).toHaveBeenCalledTimes(3);
+
+    await expect(storage.readBlob("abc")).rejects.toThrow("HTTP 404");
+    expect(getBlob).toHaveBeenCalledTimes(4);
+  });
+
+  it("should not wait for a rate limit that resets after maxDelay", async () => {
+    const reset = String(Math.floor(Date.now() / 1000) + 3600);
+    const getBlob = vi.fn().mockRejectedValue(
+      httpError(403, {
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-reset": reset,
+      }),
+    );
+    const storage = new GitHubStorage({ git: { getBlob } } as any, {
+      owner: "test-owner",
+      repo: "test-repo",
+    });
+
+    await expect(storage.readBlob("abc")).rejects.toThrow("HTTP 403");
+    expect(getBlob).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("GitHubStorage cache", () => {
+  const content = Buffer.from('{"name":"Alice"}');
+  const notModified = Object.assign(new Error("Not modified"), {
+    status: 304,
+  });
+  let octokit: any;
+
+  beforeEach(() => {
+    octokit = {
+      repos: {
+        getContent: vi.fn().mockResolvedValue({
+          data: { sha: "sha-1", content: content.toString("base64") },
+          headers: { etag: '"etag-1"' },
+        }),
+        createOrUpdateFileContents: vi
+          .fn()
+          .mockResolvedValue({ data: { content: { sha: "sha-2" } } }),
+      },
+      git: { getBlob: vi.fn() },
+    };
+  });
+
+  it("should revalidate cached files with their ETag", async () => {
+    const storage = new GitHubStorage(octokit, {
+      owner: "test-owner",
+      repo: "test-repo",
+      cache: {},
+    });
+
+    const first = await storage.readFile("users/alice.json");
+    octokit.repos.getContent.mockRejectedValueOnce(notModified);
+    const second = await storage.readFile("users/alice.json");
+
+    expect(second).toEqual(first);
+    expect(octokit.repos.getContent).toHaveBeenLastCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      path: "users/alice.json",
+      ref: "main",
+      headers: { "if-none-match": '"etag-1"' },
+    });
+    // Blobs are known from the file read
+    expect(await storage.readBlob("sha-1")).toEqual(content);
+    expect(octokit.git.getBlob).not.toHaveBeenCalled();
+  });
+
+  it("should answer reads at a commit and of written blobs without requests", async () => {
+    const storage = new GitHubStorage(octokit, {
+      owner: "test-owner",
+      repo: "test-repo",
+      cache: {},
+    });
+    const commit = "a".repeat(40);
+
+    await storage.readFile("users/alice.json", commit);
+    await storage.readFile("users/alice.json", commit);
+    const written = Buffer.from('{"name":"Alicia"}');
+    const sha = await storage.writeFile("users/alice.json", written, "Update");
+
+    expect(octokit.repos.getContent).toHaveBeenCalledTimes(1);
+    expect(await storage.readBlob(sha)).toEqual(written);
+    expect(octokit.git.getBlob).not.toHaveBeenCalled();
+  });
+
+  it("should answer reads of a written file at its commit, but ask GitHub for the branch", async () => {
+    const storage = new GitHubStorage(octokit, {
+      owner: "test-owner",
+      repo: "test-repo",
+      cache: {},
+    });
+    const commit = "b".repeat(40);
+    const written = Buffer.from('{"name":"Alicia"}');
+    octokit.repos.createOrUpdateFileContents.mockResolvedValueOnce({
+      data: { content: { sha: "sha-2" }, commit: { sha: commit } },
+    });
+
+    await storage.readFile("users/alice.json");
+    await storage.writeFile("users/alice.json", written, "Update", "sha-1");
+    expect(await storage.readFile("users/alice.json", commit)).toEqual({
+      path: "users/alice.json",
+      sha: "sha-2",
+      content: written,
+    });
+    expect(octokit.repos.getContent).toHaveBeenCalledTimes(1);
+
+    // Another client may have changed the file on the branch since
+    expect(await storage.readFile("users/alice.json")).toMatchObject({
+      sha: "sha-1",
+    });
+    expect(octokit.repos.getContent).toHaveBeenCalledTimes(2);
+    expect(octokit.repos.getContent.mock.calls[1][0].headers).toBeUndefined();
+  });
+
+  it("should read again after clearCache()", async () => {
+    const db = new FireGit(octokit, {
+      owner: "test-owner",
+      repo: "test-repo",
+      cache: true,
+    });
+
+    await db._getStorage().readFile("users/alice.json");
+    db.clearCache();
+    await db._getStorage().readFile("users/alice.json");
+
+    expect(octokit.repos.getContent).toHaveBeenCalledTimes(2);
+    expect(octokit.repos.getContent.mock.calls[1][0].headers).toBeUndefined();
+  });
+});
+
+describe("GitHubStorage trees", () => {
+  it("should list subdirectories one by one when a recursive tree is truncated", async () => {
+    const trees: Record<string, any[]> = {
+      main: [{ path: "users", type: "tree", sha: "users-tree" }],
+      "users-tree": [
+        { path: "1.json", type: "blob", sha: "blob-1" },
+        { path: "1", type: "tree", sha: "user-1-tree" },
+      ],
+      "user-1-tree": [{ path: "posts", type: "tree", sha: "posts-tree" }],
+      "posts-tree": [{ path: "a.json", type: "blob", sha: "blob-a" }],
+    };
+    const getTree = vi.fn(async ({ tree_sha, recursive }: any) => ({
+      // Only the subdirectory's recursive listing fits into one response
+      data:
+        recursive && tree_sha === "user-1-tree"
+          ? {
+              tree: [
+                { path: "posts", type: "tree", sha: "posts-tree" },
+                { path: "posts/a.json", type: "blob", sha: "blob-a" },
+              ],
+              truncated: false,
+            }
+          : { tree: trees[tree_sha], truncated: !!recursive },
+    }));
+    const storage = new GitHubStorage({ git: { getTree } } as any, {
+      owner: "test-owner",
+      repo: "test-repo",
+    });
+
+    const files = await storage.listTree("users");
+
+    expect(files).toEqual([
+      { name: "1.json", path: "users/1.json", type: "file", sha: "blob-1" },
+      {
+        name: "a.json",
+        path: "users/1/posts/a.json",
+        type: "file",
+        sha: "blob-a",
+      },
+    ]);
+  });
+});
+
+describe("FireGit with MemoryStorage", () => {
+  it("should work without GitHub", async () => {
+    const db = new FireGit(new MemoryStorage(), { basePath: "data" });
+
+    const userRef = await db.collection("users").add({ name: "Alice" });
+    await userRef.update({ age: 30 });
+    await db.doc("users/bob").set({ name: "Bob" });
+
+    expect(await userRef.get()).toEqual({
+      id: userRef.id,
+      name: "Alice",
+      age: 30,
+    });
+    expect((await db.collection("users").get()).docs).toHaveLength(2);
+
+    await db.batch().delete(userRef).delete(db.doc("users/bob")).commit();
+    expect(await db.collection("users").get()).toEqual({ docs: [] });
+  });
+});
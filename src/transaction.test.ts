@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import FireGit from "./database.js";
+import { Octokit } from "@octokit/rest";
+
+// Mock the Octokit constructor and its methods
+vi.mock("@octokit/rest", () => {
+  const mockOctokit = {
+    repos: {
+      getContent: vi.fn(),
+    },
+    git: {
+      getRef: vi.fn(),
+      getCommit: vi.fn(),
+      createBlob: vi.fn(),
+      createTree: vi.fn(),
+      createCommit: vi.fn(),
+      updateRef: vi.fn(),
+    },
+  };
+
+  return {
+    Octokit: vi.fn(() => mockOctokit),
+  };
+});
+
+describe("runTransaction", () => {
+  let db: FireGit;
+  let mockOctokit: any;
+  // Blob SHA and content of users/1.json per commit
+  let files: Record<string, { sha: string; count: number }>;
+
+  const notFastForward = () => {
+    const error = new Error("Update is not a fast forward");
+    (error as any).status = 422;
+    return error;
+  };
+
+  const writtenCounts = () =>
+    mockOctokit.git.createBlob.mock.calls.map(
+      (call: any) =>
+        JSON.parse(Buffer.from(call[0].content, "base64").toString("utf8"))
+          .count,
+    );
+
+  beforeEach(() => {
+    const octoKit = new Octokit({});
+    db = new FireGit(octoKit, {
+      owner: "test-owner",
+      repo: "test-repo",
+    });
+    mockOctokit = (db as any).octokit;
+
+    vi.resetAllMocks();
+
+    files = {
+      "head-1": { sha: "blob-a", count: 1 },
+      "head-2": { sha: "blob-b", count: 5 },
+    };
+
+    mockOctokit.repos.getContent.mockImplementation(async ({ ref }: any) => {
+      const file = files[ref];
+      return {
+        data: {
+          sha: file.sha,
+          content: Buffer.from(JSON.stringify({ count: file.count })).toString(
+            "base64",
+          ),
+        },
+      };
+    });
+    mockOctokit.git.getRef.mockResolvedValue({
+      data: { object: { sha: "head-1" } },
+    });
+    mockOctokit.git.getCommit.mockResolvedValue({
+      data: { tree: { sha: "tree" } },
+    });
+    mockOctokit.git.createBlob.mockResolvedValue({ data: { sha: "new-blob" } });
+    mockOctokit.git.createTree.mockResolvedValue({ data: { sha: "new-tree" } });
+    mockOctokit.git.createCommit.mockResolvedValue({
+      data: { sha: "new-commit" },
+    });
+    mockOctokit.git.updateRef.mockResolvedValue({});
+  });
+
+  it("should commit writes against the head it read", async () => {
+    const counter = db.doc("counters/1");
+
+    const result = await db.runTransaction(async (tx) => {
+      const snapshot = await tx.get(counter);
+      tx.update(counter, { count: snapshot.count + 1 });
+      return snapshot.count + 1;
+    });
+
+    expect(result).toBe(2);
+    expect(mockOctokit.repos.getContent).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      path: "counters/1.json",
+      ref: "head-1",
+    });
+    expect(mockOctokit.git.createCommit).toHaveBeenCalledWith({
+      owner: "test-owner",
+      repo: "test-repo",
+      message: "Transaction with 1 operation",
+      tree: "new-tree",
+      parents: ["head-1"],
+    });
+    expect(writtenCounts()).toEqual([2]);
+  });
+
+  it("should run the callback again when a document it read changed", async () => {
+    mockOctokit.git.updateRef.mockRejectedValueOnce(notFastForward());
+    mockOctokit.git.getRef
+      .mockResolvedValueOnce({ data: { object: { sha: "head-1" } } })
+      .mockResolvedValue({ data: { object: { sha: "head-2" } } });
+
+    const counter = db.doc("counters/1");
+    const updateFunction = vi.fn(async (tx) => {
+      const snapshot = await tx.get(counter);
+      tx.update(counter, { count: snapshot.count + 1 });
+    });
+
+    await db.runTransaction(updateFunction);
+
+    expect(updateFunction).toHaveBeenCalledTimes(2);
+    expect(writtenCounts()).toEqual([2, 6]);
+    expect(mockOctokit.git.createCommit).toHaveBeenLastCalledWith(
+      expect.objectContaining({ parents: ["head-2"] }),
+    );
+  });
+
+  it("should replay the writes when the head moved but its reads did not change", async () => {
+    files["head-2"] = files["head-1"];
+    mockOctokit.git.updateRef.mockRejectedValueOnce(notFastForward());
+    mockOctokit.git.getRef
+      .mockResolvedValueOnce({ data: { object: { sha: "head-1" } } })
+      .mockResolvedValue({ data: { object: { sha: "head-2" } } });
+
+    const updateFunction = vi.fn(async (tx) => {
+      const snapshot = await tx.get(db.doc("counters/1"));
+      tx.set(db.doc("counters/2"), { count: snapshot.count });
+    });
+
+    await db.runTransaction(updateFunction);
+
+    expect(updateFunction).toHaveBeenCalledTimes(1);
+    expect(mockOctokit.git.createCommit).toHaveBeenLastCalledWith(
+      expect.objectContaining({ parents: ["head-2"] }),
+    );
+  });
+
+  it("should give up after maxAttempts", async () => {
+    mockOctokit.git.updateRef.mockRejectedValue(notFastForward());
+
+    const updateFunction = vi.fn(async (tx) => {
+      tx.set(db.doc("counters/1"), { count: 0 });
+    });
+
+    await expect(
+      db.runTransaction(updateFunction, { maxAttempts: 3 }),
+    ).rejects.toThrow(
+      "Failed to run transaction: the branch changed during all 3 attempts",
+    );
+    expect(mockOctokit.git.updateRef).toHaveBeenCalledTimes(3);
+  });
+
+  it("should propagate errors thrown by the callback without committing", async () => {
+    await expect(
+      db.runTransaction(async () => {
+        throw new Error("Insufficient funds");
+      }),
+    ).rejects.toThrow("Insufficient funds");
+    expect(mockOctokit.git.updateRef).not.toHaveBeenCalled();
+  });
+
+  it("should reject reads after writes", async () => {
+    await expect(
+      db.runTransaction(async (tx) => {
+        tx.set(db.doc("counters/1"), { count: 0 });
+        await tx.get(db.doc("counters/1"));
+      }),
+    ).rejects.toThrow("all reads to be executed before all writes");
+  });
+});
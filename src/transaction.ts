@@ -0,0 +1,172 @@
+import type {
+  Document,
+  DocumentInput,
+  UpdateData,
+  FireGit,
+  SetOptions,
+} from "./database.js";
+import {
+  commitWrites,
+  getHead,
+  isConflict,
+  readFile,
+  Write,
+} from "./commit.js";
+import { FireGitError, wrapError } from "./errors.js";
+
+/**
+ * Options for runTransaction
+ */
+export interface TransactionOptions {
+  /** How often the transaction is attempted before giving up (default 5) */
+  maxAttempts?: number;
+}
+
+/**
+ * Transaction - Reads and writes that commit against the branch head they read from
+ */
+export class Transaction {
+  private db: FireGit;
+  private writes: Write[] = [];
+  private headSha?: string | null;
+  // Blob SHA per full path for every document read, null if it did not exist
+  private reads = new Map<string, string | null>();
+
+  constructor(db: FireGit) {
+    this.db = db;
+  }
+
+  /**
+   * Read a document at the branch head the transaction is pinned to
+   * @param docRef - The document to read
+   * @returns The document data in a flat structure
+   */
+  async get<T>(docRef: Document<T>): Promise<T> {
+    if (this.writes.length > 0) {
+      throw new FireGitError(
+        "failed-precondition",
+        "Transactions require all reads to be executed before all writes",
+      );
+    }
+
+    try {
+      const headSha = await this._getHeadSha();
+      const fullPath = this.db._getFilePath(docRef.path);
+      const file = await readFile(
+        this.db,
+        fullPath,
+        headSha,
+        this.db._getCodec(docRef.collection),
+      );
+      this.reads.set(fullPath, file ? file.sha : null);
+
+      return docRef._fromJSON({
+        id: docRef.id,
+        ...(file ? file.data : {}),
+      });
+    } catch (error: any) {
+      throw wrapError(error, "get document", docRef.path);
+    }
+  }
+
+  /**
+   * Queue a set operation
+   * @param docRef - The document to write
+   * @param data - The document data
+   * @param options - Options like {merge: true}
+   * @returns The transaction, for chaining
+   */
+  set<T>(docRef: Document<T>, data: DocumentInput<T>): this;
+  set<T>(docRef: Document<T>, data: UpdateData<T>, options: SetOptions): this;
+  set<T>(docRef: Document<T>, data: any, options: SetOptions = {}): this {
+    this.writes.push({
+      type: "set",
+      doc: docRef,
+      data: docRef._toJSON(data),
+      options,
+    });
+    return this;
+  }
+
+  /**
+   * Queue an update of fields, which may be field paths like "profile.address.city" -
+   * the fields bypass the converter
+   * @param docRef - The document to update
+   * @param data - The partial data to update
+   * @returns The transaction, for chaining
+   */
+  update<T>(docRef: Document<T>, data: UpdateData<T>): this {
+    this.writes.push({ type: "update", doc: docRef, data });
+    return this;
+  }
+
+  /**
+   * Queue a delete operation
+   * @param docRef - The document to delete
+   * @returns The transaction, for chaining
+   */
+  delete<T>(docRef: Document<T>): this {
+    this.writes.push({ type: "delete", doc: docRef });
+    return this;
+  }
+
+  /**
+   * Commit the queued writes against the pinned head
+   * @returns False if the branch moved since the transaction started
+   */
+  async _commit(): Promise<boolean> {
+    if (this.writes.length === 0) {
+      return true;
+    }
+
+    const count = this.writes.length;
+    const message = `Transaction with ${count} ${count === 1 ? "operation" : "operations"}`;
+
+    try {
+      await commitWrites(
+        this.db,
+        this.writes,
+        await this._getHeadSha(),
+        message,
+      );
+      return true;
+    } catch (error: any) {
+      if (isConflict(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Move the transaction to the new branch head if none of the documents it read changed
+   * @returns True if the queued writes can be replayed without running the callback again
+   */
+  async _rebase(): Promise<boolean> {
+    const headSha = await getHead(this.db);
+
+    for (const [fullPath, sha] of this.reads) {
+      const file = headSha
+        ? await this.db._getStorage().readFile(fullPath, headSha)
+        : null;
+      if ((file ? file.sha : null) !== sha) {
+        return false;
+      }
+    }
+
+    this.headSha = headSha;
+    return true;
+  }
+
+  /**
+   * Resolve the head commit once and reuse it for every read and the commit
+   * @returns The pinned head commit SHA
+   * @private
+   */
+  private async _getHeadSha(): Promise<string | null> {
+    if (this.headSha === undefined) {
+      this.headSha = await getHead(this.db);
+    }
+    return this.headSha;
+  }
+}
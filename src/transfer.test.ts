@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import FireGit from "./database.js";
+import { MemoryStorage } from "./storage/index.js";
+
+/**
+ * Collect a stream into a string
+ */
+async function read(stream: Readable): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) {
+    text += chunk;
+  }
+  return text;
+}
+
+describe("export and import", () => {
+  let storage: MemoryStorage;
+  let db: FireGit;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    db = new FireGit(storage, { indexes: { users: ["age"] } });
+    const batch = db.batch();
+    batch.set(db.doc("users/alice"), { name: "Alice", age: 30 });
+    batch.set(db.doc("users/alice/posts/p1"), { title: "Hello" });
+    batch.set(db.doc("users/bob"), { name: "Bob", age: 25 });
+    batch.set(db.doc("tags/news"), { label: "News" });
+    await batch.commit();
+  });
+
+  it("should export documents as NDJSON", async () => {
+    const lines = (await read(db.export({ collections: ["users"] })))
+      .trim()
+      .split("\n");
+
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      { path: "users/alice", data: { name: "Alice", age: 30 } },
+      { path: "users/alice/posts/p1", data: { title: "Hello" } },
+      { path: "users/bob", data: { name: "Bob", age: 25 } },
+    ]);
+    expect((await read(db.export())).trim().split("\n")).toHaveLength(4);
+  });
+
+  it("should import NDJSON into another database in batches", async () => {
+    const target = new MemoryStorage();
+    const copy = new FireGit(target, { indexes: { users: ["age"] } });
+
+    const result = await copy.import(db.export(), { batchSize: 3 });
+
+    expect(result).toEqual({
+      imported: 4,
+      failed: 0,
+      commits: [expect.any(String), expect.any(String)],
+      errors: [],
+    });
+    expect(
+      (await copy.collection("users").where("age", ">", 26).get()).docs,
+    ).toEqual([{ id: "alice", name: "Alice", age: 30 }]);
+    expect(await copy.doc("users/alice/posts/p1").get()).toEqual({
+      id: "p1",
+      title: "Hello",
+    });
+  });
+
+  it("should merge or overwrite existing documents", async () => {
+    const source = () =>
+      Readable.from([`{"path":"users/alice","data":{"age":31}}\n`]);
+
+    await db.import(source());
+    expect(await db.doc("users/alice").get()).toEqual({
+      id: "alice",
+      name: "Alice",
+      age: 31,
+    });
+
+    await db.import(source(), { mode: "overwrite" });
+    expect(await db.doc("users/alice").get()).toEqual({
+      id: "alice",
+      age: 31,
+    });
+  });
+
+  it("should report invalid records and write the others", async () => {
+    db.registerValidator("users/{uid}", (data) =>
+      typeof data.name === "string" ? true : ["name must be a string"],
+    );
+    const head = await storage.getHead();
+    const source = [
+      `{"path":"users/carol","data":{"name":"Carol"}}`,
+      `not json`,
+      `{"path":"users","data":{}}`,
+      `{"path":"users/dave","data":{"name":42}}`,
+      `{"path":"users/erin","data":{"name":"Erin"}}`,
+    ].join("\n");
+
+    const dryRun = await db.import(Readable.from([source]), { dryRun: true });
+    expect(await storage.getHead()).toBe(head);
+
+    const result = await db.import(Readable.from([source]), {
+      mode: "overwrite",
+    });
+    expect(result).toEqual({ ...dryRun, commits: [expect.any(String)] });
+    expect(result).toMatchObject({
+      imported: 2,
+      failed: 3,
+      errors: [
+        { line: 2, message: expect.stringMatching(/^Invalid JSON/) },
+        { line: 3, path: "users", message: "Invalid document path 'users'" },
+        {
+          line: 4,
+          path: "users/dave",
+          message:
+            "Invalid data for document 'users/dave': name must be a string",
+        },
+      ],
+    });
+    expect(
+      (await db.collection("users").get()).docs.map((doc) => doc.id),
+    ).toEqual(["alice", "bob", "carol", "erin"]);
+  });
+
+  it("should export and import directory snapshots", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "firegit-export-"));
+    try {
+      expect(await db.export({ format: "json-dir", directory })).toEqual({
+        exported: 4,
+      });
+      expect(
+        JSON.parse(
+          await readFile(join(directory, "users/alice/posts/p1.json"), "utf8"),
+        ),
+      ).toEqual({ title: "Hello" });
+
+      const copy = new FireGit(new MemoryStorage());
+      expect(
+        await copy.import(directory, { format: "json-dir" }),
+      ).toMatchObject({ imported: 4, failed: 0 });
+      expect(await copy.doc("tags/news").get()).toEqual({
+        id: "news",
+        label: "News",
+      });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
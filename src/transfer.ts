@@ -0,0 +1,406 @@
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import { dirname, join, sep } from "node:path";
+import { Readable } from "node:stream";
+import type { FireGit } from "./database.js";
+import {
+  buildChanges,
+  getHead,
+  parseDocument,
+  retryOnConflict,
+  Write,
+} from "./commit.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { InvalidArgumentError, wrapError } from "./errors.js";
+import { ValidationError } from "./validation.js";
+
+/**
+ * A document as exported and imported - one line of an NDJSON export
+ */
+export interface ExportRecord {
+  /** The document path, relative to basePath */
+  path: string;
+  /** The stored data, without the id */
+  data: any;
+}
+
+/**
+ * Options for export()
+ */
+export interface ExportOptions {
+  /** The collections to export with their subcollections (default all) */
+  collections?: string[];
+  /** "ndjson" (default) streams one record per line, "json-dir" writes one file per document */
+  format?: "ndjson" | "json-dir";
+  /** The directory json-dir writes <path>.json files to */
+  directory?: string;
+}
+
+/**
+ * The outcome of a json-dir export
+ */
+export interface ExportResult {
+  /** The number of exported documents */
+  exported: number;
+}
+
+/**
+ * Options for import()
+ */
+export interface ImportOptions {
+  /** "ndjson" (default) reads a stream, "json-dir" reads the <path>.json files of a directory */
+  format?: "ndjson" | "json-dir";
+  /** "merge" (default) merges into existing documents, "overwrite" replaces them */
+  mode?: "merge" | "overwrite";
+  /** The most documents written per commit (default 500) */
+  batchSize?: number;
+  /** Check the records against the stored documents and validators without committing */
+  dryRun?: boolean;
+}
+
+/**
+ * A record that could not be imported
+ */
+export interface ImportError {
+  /** The line of the NDJSON source */
+  line?: number;
+  /** The document path, if the record has one */
+  path?: string;
+  message: string;
+}
+
+/**
+ * The outcome of an import
+ */
+export interface ImportResult {
+  /** The number of documents written, or that would be written in a dry run */
+  imported: number;
+  /** The number of records that were skipped, with their errors in errors */
+  failed: number;
+  /** The SHAs of the import commits, empty in a dry run */
+  commits: string[];
+  errors: ImportError[];
+}
+
+/**
+ * A parsed record, or the error that kept it from being parsed
+ */
+export type SourceRecord =
+  { record: ExportRecord; line?: number } | { error: ImportError };
+
+/**
+ * Read every document below the collections at the head of the branch, sorted by path
+ * @param db - The database
+ * @param collections - The collection paths, all documents if omitted
+ * @returns The documents, read maxConcurrency at a time
+ */
+export async function* exportDocuments(
+  db: FireGit,
+  collections?: string[],
+): AsyncGenerator<ExportRecord> {
+  const storage = db._getStorage();
+  const headSha = await getHead(db);
+  if (!headSha) {
+    return;
+  }
+
+  const basePath = db._getFullPath("");
+  const prefix = basePath ? `${basePath}/` : "";
+  const files = new Map<string, { fullPath: string; sha: string }>();
+  for (const collectionPath of collections || [""]) {
+    const entries = await storage.listTree(
+      db._getFullPath(collectionPath),
+      headSha,
+    );
+    for (const entry of entries || []) {
+      const path = db._getDocumentPath(entry.path.slice(prefix.length));
+      if (path !== null) {
+        files.set(path, { fullPath: entry.path, sha: entry.sha });
+      }
+    }
+  }
+
+  const paths = [...files.keys()].sort();
+  const chunkSize = db._getMaxConcurrency();
+  for (let start = 0; start < paths.length; start += chunkSize) {
+    const records = await mapWithConcurrency(
+      paths.slice(start, start + chunkSize),
+      chunkSize,
+      async (path) => {
+        const { fullPath, sha } = files.get(path)!;
+        const collectionPath = path.slice(0, path.lastIndexOf("/"));
+        const content = await storage.readBlob(sha);
+        return {
+          path,
+          data: parseDocument(content, fullPath, db._getCodec(collectionPath)),
+        };
+      },
+    );
+    yield* records;
+  }
+}
+
+/**
+ * Stream documents as NDJSON, one {"path", "data"} record per line
+ * @param records - The documents
+ * @returns A readable stream of the lines
+ */
+export function toNdjson(records: AsyncIterable<ExportRecord>): Readable {
+  return Readable.from(
+    (async function* () {
+      try {
+        for await (const record of records) {
+          yield `${JSON.stringify(record)}\n`;
+        }
+      } catch (error: any) {
+        throw wrapError(error, "export documents");
+      }
+    })(),
+    { objectMode: false },
+  );
+}
+
+/**
+ * Write documents to a directory, as <directory>/<path>.json
+ * @param records - The documents
+ * @param directory - The directory, created if missing
+ * @returns The number of written documents
+ */
+export async function writeDirectory(
+  records: AsyncIterable<ExportRecord>,
+  directory: string,
+): Promise<number> {
+  let count = 0;
+  for await (const { path, data } of records) {
+    const file = join(directory, `${path}.json`);
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, `${JSON.stringify(data, null, 2)}\n`);
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Write records in commits of at most batchSize documents.
+ * Records with invalid paths or data are skipped and reported; a failed commit stops the import,
+ * leaving the earlier commits in place.
+ * @param db - The database
+ * @param source - The parsed records
+ * @param options - The mode, batchSize and dryRun
+ * @returns The counts, commits and errors
+ */
+export async function importDocuments(
+  db: FireGit,
+  source: AsyncIterable<SourceRecord>,
+  options: ImportOptions,
+): Promise<ImportResult> {
+  const batchSize = options.batchSize ?? 500;
+  if (!(batchSize >= 1)) {
+    throw new InvalidArgumentError(
+      `Invalid batchSize ${batchSize}. It must be at least 1`,
+    );
+  }
+  const result: ImportResult = {
+    imported: 0,
+    failed: 0,
+    commits: [],
+    errors: [],
+  };
+  const fail = (error: ImportError) => {
+    result.failed++;
+    result.errors.push(error);
+  };
+
+  let batch: Array<{ write: Write; line?: number }> = [];
+  const flush = async () => {
+    while (batch.length > 0) {
+      try {
+        const sha = await commitBatch(
+          db,
+          batch.map(({ write }) => write),
+          !!options.dryRun,
+        );
+        if (sha) {
+          result.commits.push(sha);
+        }
+        result.imported += batch.length;
+        batch = [];
+      } catch (error: any) {
+        // Skip the invalid document and commit the rest of the batch
+        const invalid =
+          error instanceof ValidationError
+            ? batch.filter(({ write }) => write.doc.path === error.path)
+            : [];
+        if (invalid.length === 0) {
+          throw error;
+        }
+        invalid.forEach(({ line }) =>
+          fail({ line, path: error.path, message: error.message }),
+        );
+        batch = batch.filter((item) => !invalid.includes(item));
+      }
+    }
+  };
+
+  for await (const item of source) {
+    if ("error" in item) {
+      fail(item.error);
+      continue;
+    }
+    const { record, line } = item;
+    const problem = checkRecord(record);
+    if (problem) {
+      fail({ line, path: record?.path, message: problem });
+      continue;
+    }
+
+    const doc = db.doc(record.path);
+    // A document appears once per commit, so a repeated path starts a new one
+    if (batch.some(({ write }) => write.doc.path === doc.path)) {
+      await flush();
+    }
+    batch.push({
+      write: {
+        type: "set",
+        doc,
+        data: record.data,
+        options: { merge: options.mode !== "overwrite" },
+      },
+      line,
+    });
+    if (batch.length >= batchSize) {
+      await flush();
+    }
+  }
+  await flush();
+
+  return result;
+}
+
+/**
+ * Parse NDJSON records, one per non-empty line
+ * @param source - A stream or iterable of text chunks
+ * @returns The records with their line numbers, or the errors of unparsable lines
+ */
+export async function* parseNdjson(
+  source: AsyncIterable<string | Buffer | Uint8Array> | Iterable<string>,
+): AsyncGenerator<SourceRecord> {
+  const decoder = new TextDecoder();
+  let buffered = "";
+  let line = 0;
+
+  const parseLine = (text: string): SourceRecord | null => {
+    line++;
+    if (!text.trim()) {
+      return null;
+    }
+    try {
+      return { record: JSON.parse(text), line };
+    } catch (error: any) {
+      return { error: { line, message: `Invalid JSON: ${error.message}` } };
+    }
+  };
+
+  for await (const chunk of source) {
+    buffered +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop()!;
+    for (const text of lines) {
+      const parsed = parseLine(text);
+      if (parsed) {
+        yield parsed;
+      }
+    }
+  }
+
+  const parsed = parseLine(buffered + decoder.decode());
+  if (parsed) {
+    yield parsed;
+  }
+}
+
+/**
+ * Read the <path>.json files of a directory, sorted by path
+ * @param directory - The directory written by a json-dir export
+ * @returns The records, or the errors of unparsable files
+ */
+export async function* readDirectory(
+  directory: string,
+): AsyncGenerator<SourceRecord> {
+  // Dirent.parentPath needs Node 20.12, so the relative paths are listed instead
+  const files = (await readdir(directory, { recursive: true }))
+    .filter((file) => file.endsWith(".json"))
+    .sort();
+
+  for (const file of files) {
+    const path = file.slice(0, -".json".length).split(sep).join("/");
+    const fullPath = join(directory, file);
+    if (!(await stat(fullPath)).isFile()) {
+      continue;
+    }
+    try {
+      yield {
+        record: { path, data: JSON.parse(await readFile(fullPath, "utf8")) },
+      };
+    } catch (error: any) {
+      yield { error: { path, message: `Invalid JSON: ${error.message}` } };
+    }
+  }
+}
+
+/**
+ * Commit a batch of writes on top of the current head
+ * @param db - The database
+ * @param writes - The writes, one per document
+ * @param dryRun - Compute and validate the changes without committing them
+ * @returns The commit SHA, or null in a dry run or if nothing changed
+ */
+async function commitBatch(
+  db: FireGit,
+  writes: Write[],
+  dryRun: boolean,
+): Promise<string | null> {
+  return retryOnConflict(db, async () => {
+    const headSha = await getHead(db);
+    const changes = await buildChanges(db, writes, headSha);
+    if (dryRun || changes.length === 0) {
+      return null;
+    }
+    const count = writes.length;
+    return db
+      ._getStorage()
+      .commit(
+        changes,
+        `Import ${count} ${count === 1 ? "document" : "documents"}`,
+        headSha,
+      );
+  });
+}
+
+/**
+ * Check the shape of a record
+ * @param record - The parsed record
+ * @returns The problem, or null if the record can be written
+ */
+function checkRecord(record: any): string | null {
+  if (typeof record?.path !== "string") {
+    return "Missing document path";
+  }
+  const segments = record.path.split("/");
+  if (
+    segments.length % 2 !== 0 ||
+    segments.some((segment: string) => !segment || segment.startsWith("."))
+  ) {
+    return `Invalid document path '${record.path}'`;
+  }
+  if (
+    typeof record.data !== "object" ||
+    record.data === null ||
+    Array.isArray(record.data)
+  ) {
+    return `The data of '${record.path}' is not an object`;
+  }
+  return null;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import FireGit from "./database.js";
+import { MemoryStorage } from "./storage/index.js";
+import {
+  JSONSchema,
+  matchPattern,
+  validateSchema,
+  ValidationError,
+} from "./validation.js";
+
+const userSchema: JSONSchema = {
+  type: "object",
+  properties: {
+    email: { type: "string", pattern: "@" },
+    age: { type: "integer", minimum: 0 },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["email"],
+  additionalProperties: false,
+};
+
+describe("validateSchema", () => {
+  it("should report every invalid field with its path", () => {
+    expect(validateSchema(userSchema, { email: "a@x.io", age: 3 })).toEqual([]);
+    expect(
+      validateSchema(userSchema, { emial: 3, age: -1, tags: ["a", 1] }),
+    ).toEqual([
+      { field: "email", message: "is required" },
+      { field: "emial", message: "is not allowed" },
+      { field: "age", message: "must be >= 0" },
+      { field: "tags.1", message: "must be of type string" },
+    ]);
+  });
+});
+
+describe("matchPattern", () => {
+  it("should match placeholders against single path segments", () => {
+    expect(matchPattern("users/{uid}", "users/alice")).toEqual({
+      uid: "alice",
+    });
+    expect(
+      matchPattern("users/{uid}/posts/{pid}", "users/alice/posts/1"),
+    ).toEqual({ uid: "alice", pid: "1" });
+    expect(matchPattern("users/{uid}", "users/alice/posts/1")).toBeNull();
+    expect(matchPattern("users/{uid}", "teams/a")).toBeNull();
+  });
+});
+
+describe("validators", () => {
+  let storage: MemoryStorage;
+  let db: FireGit;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    db = new FireGit(storage, { validators: { "users/{uid}": userSchema } });
+  });
+
+  it("should reject invalid data with a ValidationError", async () => {
+    const error = await db
+      .doc("users/alice")
+      .set({ emial: 3 })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.path).toBe("users/alice");
+    expect(error.issues).toEqual([
+      { field: "email", message: "is required" },
+      { field: "emial", message: "is not allowed" },
+    ]);
+    expect(error.message).toBe(
+      "Invalid data for document 'users/alice': email is required; emial is not allowed",
+    );
+    expect(await storage.getHead()).toBeNull();
+
+    await expect(db.collection("users").add({ age: 1 })).rejects.toThrow(
+      ValidationError,
+    );
+  });
+
+  it("should check updates against the merged result", async () => {
+    await db.doc("users/alice").set({ email: "a@x.io" });
+
+    await db.doc("users/alice").update({ age: 30 });
+    await expect(db.doc("users/alice").update({ age: -1 })).rejects.toThrow(
+      "age must be >= 0",
+    );
+    expect(await db.doc("users/alice").get()).toEqual({
+      id: "alice",
+      email: "a@x.io",
+      age: 30,
+    });
+  });
+
+  it("should reject a whole batch if one write is invalid", async () => {
+    const commitSpy = vi.spyOn(storage, "commit");
+
+    await expect(
+      db
+        .batch()
+        .set(db.doc("users/alice"), { email: "a@x.io" })
+        .set(db.doc("users/bob"), { email: "bob" })
+        .commit(),
+    ).rejects.toThrow(ValidationError);
+    expect(commitSpy).not.toHaveBeenCalled();
+  });
+
+  it("should call function validators with the pattern placeholders", async () => {
+    const validator = vi.fn((data: any, { params }) =>
+      data.author === params.uid ? true : "author must be the user",
+    );
+    db.registerValidator("users/{uid}/posts/{pid}", validator);
+
+    await db.doc("users/alice/posts/1").set({ author: "alice" });
+    await expect(
+      db.doc("users/alice/posts/2").set({ author: "bob" }),
+    ).rejects.toThrow("author must be the user");
+    expect(validator).toHaveBeenCalledWith(
+      { author: "alice" },
+      { path: "users/alice/posts/1", params: { uid: "alice", pid: "1" } },
+    );
+  });
+});
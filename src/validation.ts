@@ -0,0 +1,307 @@
+import { InvalidArgumentError } from "./errors.js";
+
+/**
+ * The subset of JSON Schema that validators understand
+ */
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  enum?: any[];
+  const?: any;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: JSONSchema[];
+}
+
+/**
+ * Value types of JSON Schema's type keyword
+ */
+export type JSONSchemaType =
+  "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+/**
+ * What a validator function is called with besides the data
+ */
+export interface ValidationContext {
+  /** The document path, e.g. users/alice/posts/1 */
+  path: string;
+  /** The values of the pattern's placeholders, e.g. { uid: "alice", pid: "1" } */
+  params: Record<string, string>;
+}
+
+/**
+ * A function validator - returns false or error messages for invalid data
+ */
+export type ValidatorFunction = (
+  data: any,
+  context: ValidationContext,
+) => boolean | string | string[] | void;
+
+/**
+ * A JSON Schema or a function that checks the stored data of documents
+ */
+export type Validator = JSONSchema | ValidatorFunction;
+
+/**
+ * A single reason data was rejected
+ */
+export interface ValidationIssue {
+  /** The dot path of the invalid field, "" for the document itself */
+  field: string;
+  message: string;
+}
+
+/**
+ * ValidationError - Thrown when a write is rejected by a validator, before anything is committed
+ */
+export class ValidationError extends InvalidArgumentError {
+  /** The document path */
+  declare readonly path: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(path: string, issues: ValidationIssue[]) {
+    const details = issues
+      .map(({ field, message }) => (field ? `${field} ${message}` : message))
+      .join("; ");
+    super(`Invalid data for document '${path}': ${details}`, { path });
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Match a document path against a pattern like users/{uid}/posts/{pid}
+ * @param pattern - The pattern, with {name} matching a single path segment
+ * @param path - The document path
+ * @returns The placeholder values, or null if the path does not match
+ */
+export function matchPattern(
+  pattern: string,
+  path: string,
+): Record<string, string> | null {
+  const patternSegments = pattern.split("/");
+  const pathSegments = path.split("/");
+  if (patternSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternSegments.length; i++) {
+    const placeholder = /^\{(\w+)\}$/.exec(patternSegments[i]);
+    if (placeholder) {
+      params[placeholder[1]] = pathSegments[i];
+    } else if (patternSegments[i] !== pathSegments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Run a validator against document data
+ * @param validator - The JSON Schema or function
+ * @param data - The data that would be stored
+ * @param context - The document path and pattern placeholders
+ * @returns The issues found, empty if the data is valid
+ */
+export function runValidator(
+  validator: Validator,
+  data: any,
+  context: ValidationContext,
+): ValidationIssue[] {
+  if (typeof validator !== "function") {
+    return validateSchema(validator, data);
+  }
+
+  const result = validator(data, context);
+  if (result === false) {
+    return [{ field: "", message: "is invalid" }];
+  }
+  if (typeof result === "string") {
+    return [{ field: "", message: result }];
+  }
+  if (Array.isArray(result)) {
+    return result.map((message) => ({ field: "", message }));
+  }
+  return [];
+}
+
+/**
+ * Check a value against a JSON Schema
+ * @param schema - The schema
+ * @param value - The value
+ * @param field - The dot path of the value, for messages
+ * @returns The issues found
+ */
+export function validateSchema(
+  schema: JSONSchema,
+  value: any,
+  field = "",
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const fail = (message: string) => issues.push({ field, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => hasType(value, type))) {
+      fail(`must be of type ${types.join(" or ")}`);
+      // The remaining keywords assume the right type
+      return issues;
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some((item) => deepEqual(value, item))) {
+    fail(
+      `must be one of ${schema.enum.map((item) => JSON.stringify(item)).join(", ")}`,
+    );
+  }
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(
+      (option) => validateSchema(option, value, field).length === 0,
+    );
+    if (!matches) {
+      fail("must match one of the allowed schemas");
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      fail(`must be > ${schema.exclusiveMinimum}`);
+    }
+    if (
+      schema.exclusiveMaximum !== undefined &&
+      value >= schema.exclusiveMaximum
+    ) {
+      fail(`must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must have at most ${schema.maxLength} characters`);
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern, "u").test(value)
+    ) {
+      fail(`must match the pattern ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) =>
+        issues.push(
+          ...validateSchema(
+            schema.items!,
+            item,
+            joinField(field, String(index)),
+          ),
+        ),
+      );
+    }
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        issues.push({ field: joinField(field, key), message: "is required" });
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        issues.push(
+          ...validateSchema(propertySchema, item, joinField(field, key)),
+        );
+      } else if (schema.additionalProperties === false) {
+        issues.push({
+          field: joinField(field, key),
+          message: "is not allowed",
+        });
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(
+          ...validateSchema(
+            schema.additionalProperties,
+            item,
+            joinField(field, key),
+          ),
+        );
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check a value against a JSON Schema type
+ */
+function hasType(value: any, type: JSONSchemaType): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isObject(value);
+    case "null":
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Check whether a value is a plain JSON object
+ */
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compare two JSON values structurally
+ */
+function deepEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Append a key to a dot path
+ */
+function joinField(field: string, key: string): string {
+  return field ? `${field}.${key}` : key;
+}